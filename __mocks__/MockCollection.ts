@@ -2,10 +2,13 @@ export default class MockCollection {
   findOne;
   deleteOne;
   updateOne;
+  findOneAndUpdate;
+  watch?;
 
   constructor() {
     this.findOne = jest.fn(() => Promise.resolve());
     this.deleteOne = jest.fn(() => Promise.resolve({ deletedCount: 1 }));
     this.updateOne = jest.fn(() => Promise.resolve({ matchedCount: 1 }));
+    this.findOneAndUpdate = jest.fn(() => Promise.resolve({ fencingEpoch: 0, fencingCounter: 1 }));
   }
 }
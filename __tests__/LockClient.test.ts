@@ -0,0 +1,220 @@
+import { LockClient } from "../lib/LockClient";
+import { RWMutex } from "../lib/RWMutex";
+import { MemoryLockCollection } from "../lib/MemoryLockCollection";
+import { LockAbortedError, LockReleaseError, LockShutdownTimeoutError } from "../lib/errors";
+import MockCollection from "../__mocks__/MockCollection";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("LockClient", () => {
+  it("creates locks with its clientID and lock options", () => {
+    const mockCollection = new MockCollection();
+    const client = new LockClient(mockCollection, {
+      clientID: "1",
+      lockOptions: { sleepTime: 5, reentrancy: "count" },
+    });
+    const lock = client.rwMutex("a", { reentrancy: "error" });
+    expect(lock._coll).toBe(mockCollection);
+    expect(lock._lockID).toBe("a");
+    expect(lock._clientID).toBe("1");
+    expect(lock._options).toMatchObject({ sleepTime: 5, expiresAt: null, reentrancy: "error" });
+  });
+
+  it("generates a unique clientID unless given one", () => {
+    const client1 = new LockClient(new MockCollection());
+    const client2 = new LockClient(new MockCollection());
+    expect(client1.clientID).toMatch(/^[0-9a-f]{24}$/);
+    expect(client1.clientID).not.toBe(client2.clientID);
+  });
+
+  it("tracks the locks it holds", async () => {
+    const client = new LockClient(new MockCollection(), { clientID: "1" });
+    const a = client.rwMutex("a");
+    const b = client.rwMutex("b");
+    await a.lock();
+    await b.rLock();
+    expect(client.heldLocks()).toEqual([
+      { lockID: "a", mode: "write" },
+      { lockID: "b", mode: "read" },
+    ]);
+    await a.unlock();
+    expect(client.heldLocks()).toEqual([{ lockID: "b", mode: "read" }]);
+    await b.tryOverrideLockWriter("");
+    expect(client.heldLocks()).toEqual([
+      { lockID: "b", mode: "write" },
+      { lockID: "b", mode: "read" },
+    ]);
+  });
+
+  it("still calls the onEvent option", async () => {
+    const onEvent = jest.fn();
+    const client = new LockClient(new MockCollection(), { lockOptions: { onEvent } });
+    await client.rwMutex("a").lock();
+    expect(onEvent).toHaveBeenCalledWith(expect.objectContaining({ type: "acquired" }));
+  });
+
+  it("releases all of the locks it holds", async () => {
+    const mockCollection = new MockCollection();
+    const client = new LockClient(mockCollection, { clientID: "1" });
+    await client.rwMutex("a").lock();
+    await client.rwMutex("b").rLock();
+    await client.releaseAll();
+    expect(mockCollection.deleteOne).toHaveBeenCalledTimes(2);
+    expect(mockCollection.deleteOne.mock.calls[0][0]).toMatchObject({ lockID: "a", writer: "1" });
+    expect(mockCollection.deleteOne.mock.calls[1][0]).toMatchObject({ lockID: "b" });
+    expect(client.heldLocks()).toEqual([]);
+  });
+
+  it("releases every hold on a lock with counted reentrancy", async () => {
+    const mockCollection = new MockCollection();
+    const client = new LockClient(mockCollection, {
+      clientID: "1",
+      lockOptions: { reentrancy: "count" },
+    });
+    await client.rwMutex("a").rLock();
+    mockCollection.updateOne = jest
+      .fn()
+      .mockReturnValueOnce(Promise.resolve({ matchedCount: 1 }))
+      .mockReturnValue(Promise.resolve({ matchedCount: 0 }));
+    await client.releaseAll();
+    // one hold dropped, then the lock released
+    expect(mockCollection.updateOne).toHaveBeenCalledTimes(2);
+    expect(mockCollection.deleteOne).toHaveBeenCalledTimes(1);
+    expect(client.heldLocks()).toEqual([]);
+  });
+
+  it("keeps releasing the other locks when releasing one fails", async () => {
+    const mockCollection = new MockCollection();
+    const client = new LockClient(mockCollection, { clientID: "1" });
+    await client.rwMutex("a").lock();
+    await client.rwMutex("b").lock();
+    mockCollection.deleteOne = jest
+      .fn()
+      .mockReturnValueOnce(Promise.reject(new Error("connection lost")))
+      .mockReturnValue(Promise.resolve({ deletedCount: 1 }));
+    await expect(client.releaseAll()).rejects.toThrow(LockReleaseError);
+    expect(mockCollection.deleteOne).toHaveBeenCalledTimes(2);
+    expect(client.heldLocks()).toEqual([]);
+  });
+
+  it("forgets a lock it turns out not to hold anymore", async () => {
+    const mockCollection = new MockCollection();
+    const client = new LockClient(mockCollection, { clientID: "1" });
+    const lock = client.rwMutex("a");
+    await lock.lock();
+    mockCollection.deleteOne = jest.fn(() => Promise.resolve({ deletedCount: 0 }));
+    mockCollection.updateOne = jest.fn(() => Promise.resolve({ matchedCount: 0 }));
+    await expect(lock.unlock()).rejects.toThrow("not currently held");
+    expect(client.heldLocks()).toEqual([]);
+  });
+
+  describe("shutdown", () => {
+    it("only listens to its shutdown signal while acquiring a lock", async () => {
+      const client = new LockClient(new MockCollection(), {
+        lockOptions: { signal: new AbortController().signal },
+      });
+      const shutdownSignal = client._abortController.signal;
+      const addListener = jest.spyOn(shutdownSignal, "addEventListener");
+      const removeListener = jest.spyOn(shutdownSignal, "removeEventListener");
+      const lock = client.rwMutex("a");
+      expect(addListener).not.toHaveBeenCalled();
+      await lock.lock();
+      await lock.unlock();
+      await lock.rLock();
+      expect(addListener).toHaveBeenCalledTimes(2);
+      expect(removeListener).toHaveBeenCalledTimes(2);
+    });
+
+    it("gives up on acquiring locks and releases the ones it holds", async () => {
+      const collection = new MemoryLockCollection();
+      await new RWMutex(collection, "b", "2", { sleepTime: 5, expiresAt: null }).lock();
+      const client = new LockClient(collection, { clientID: "1", lockOptions: { sleepTime: 5 } });
+      await client.rwMutex("a").lock();
+      const waiting = client.rwMutex("b").lock();
+      await sleep(20);
+      await client.shutdown();
+      await expect(waiting).rejects.toThrow(LockAbortedError);
+      expect(await collection.findOne({ lockID: "a" })).toBeNull();
+      expect(client.heldLocks()).toEqual([]);
+      await expect(client.rwMutex("c").lock()).rejects.toThrow(LockAbortedError);
+      expect(client.shutdown()).toBe(client.shutdown());
+    });
+
+    it("releases a lock acquired by an attempt under way when shutting down", async () => {
+      const mockCollection = new MockCollection();
+      let acquire: (mongoLock: any) => void;
+      mockCollection.findOneAndUpdate = jest.fn(
+        () => new Promise((resolve) => (acquire = resolve)),
+      );
+      const client = new LockClient(mockCollection, { clientID: "1" });
+      const lock = client.rwMutex("a").lock();
+      await client.shutdown();
+      acquire({ fencingEpoch: 0, fencingCounter: 1 });
+      await lock;
+      await sleep(0);
+      expect(mockCollection.deleteOne).toHaveBeenCalledTimes(1);
+      expect(client.heldLocks()).toEqual([]);
+    });
+
+    it("gives up on releasing locks once the timeout passes", async () => {
+      const mockCollection = new MockCollection();
+      const client = new LockClient(mockCollection, {
+        clientID: "1",
+        lockOptions: { heartbeat: { leaseTime: 1000, interval: 100 } },
+      });
+      const lock = client.rwMutex("a");
+      await lock.lock();
+      mockCollection.deleteOne = jest.fn(() => new Promise(() => {}));
+      const err = await client.shutdown({ timeoutMs: 20 }).catch((err) => err);
+      expect(err).toBeInstanceOf(LockShutdownTimeoutError);
+      expect(err.locks).toEqual([{ lockID: "a", mode: "write" }]);
+      expect(lock._heartbeatTimer).toBeNull();
+    });
+
+    describe("on signals", () => {
+      let kill: jest.SpyInstance;
+      beforeEach(() => {
+        kill = jest.spyOn(process, "kill").mockImplementation(() => true);
+      });
+      afterEach(() => {
+        kill.mockRestore();
+      });
+
+      it("shuts down and raises the signal again", async () => {
+        const mockCollection = new MockCollection();
+        const client = new LockClient(mockCollection, { shutdown: { signals: ["SIGUSR2"] } });
+        await client.rwMutex("a").lock();
+        process.emit("SIGUSR2", "SIGUSR2");
+        await sleep(10);
+        expect(mockCollection.deleteOne).toHaveBeenCalledTimes(1);
+        expect(process.listenerCount("SIGUSR2")).toBe(0);
+        expect(kill).toHaveBeenCalledWith(process.pid, "SIGUSR2");
+      });
+
+      it("leaves exiting to the process's other handlers of the signal", async () => {
+        const onError = jest.fn();
+        const other = jest.fn();
+        process.on("SIGUSR2", other);
+        const mockCollection = new MockCollection();
+        const client = new LockClient(mockCollection, {
+          shutdown: { signals: ["SIGUSR2"], timeoutMs: 20, onError },
+        });
+        await client.rwMutex("a").lock();
+        mockCollection.deleteOne = jest.fn(() => new Promise(() => {}));
+        process.emit("SIGUSR2", "SIGUSR2");
+        await sleep(40);
+        process.removeListener("SIGUSR2", other);
+        expect(onError).toHaveBeenCalledWith(expect.any(LockShutdownTimeoutError));
+        expect(kill).not.toHaveBeenCalled();
+      });
+
+      it("stops handling signals once shut down", async () => {
+        const client = new LockClient(new MockCollection(), { shutdown: {} });
+        expect(process.listeners("SIGTERM")).toContain(client._signalHandlers[0].handler);
+        await client.shutdown();
+        expect(client._signalHandlers).toEqual([]);
+        expect(kill).not.toHaveBeenCalled();
+      });
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { EventEmitter } from "events";
+import { LockWatcher, mayReleaseLock } from "../lib/LockWatcher";
+import MockCollection from "../__mocks__/MockCollection";
+
+const lockID = "lockID";
+
+class MockChangeStream extends EventEmitter {
+  close = jest.fn(() => Promise.resolve());
+}
+
+describe("mayReleaseLock()", () => {
+  it("is true for inserts, replaces and deletes", () => {
+    expect(mayReleaseLock({ operationType: "insert" })).toBe(true);
+    expect(mayReleaseLock({ operationType: "replace" })).toBe(true);
+    expect(mayReleaseLock({ operationType: "delete" })).toBe(true);
+  });
+
+  it("is true for updates to the writer or readers", () => {
+    expect(
+      mayReleaseLock({
+        operationType: "update",
+        updateDescription: { updatedFields: { writer: "" } },
+      }),
+    ).toBe(true);
+    expect(
+      mayReleaseLock({
+        operationType: "update",
+        updateDescription: { updatedFields: { "readers.1": "2" } },
+      }),
+    ).toBe(true);
+    expect(
+      mayReleaseLock({
+        operationType: "update",
+        updateDescription: { removedFields: ["readers"] },
+      }),
+    ).toBe(true);
+  });
+
+  it("is true for updates to the permits in use of a semaphore", () => {
+    expect(
+      mayReleaseLock({
+        operationType: "update",
+        updateDescription: { updatedFields: { used: 2 } },
+      }),
+    ).toBe(true);
+  });
+
+  it("is true for clients leaving the queue or withdrawing their writer intent", () => {
+    expect(
+      mayReleaseLock({
+        operationType: "update",
+        updateDescription: { updatedFields: { queue: [] } },
+      }),
+    ).toBe(true);
+    expect(
+      mayReleaseLock({
+        operationType: "update",
+        updateDescription: { updatedFields: { writerIntents: [] } },
+      }),
+    ).toBe(true);
+    expect(
+      mayReleaseLock({
+        operationType: "update",
+        updateDescription: { updatedFields: {}, truncatedArrays: [{ field: "queue", newSize: 1 }] },
+      }),
+    ).toBe(true);
+  });
+
+  it("is false for lease, ticket and intent renewals", () => {
+    expect(
+      mayReleaseLock({
+        operationType: "update",
+        updateDescription: {
+          updatedFields: {
+            "queue.0.expiresAt": new Date(),
+            "writerIntents.1.expiresAt": new Date(),
+          },
+        },
+      }),
+    ).toBe(false);
+  });
+
+  it("is false for lease renewals", () => {
+    expect(
+      mayReleaseLock({
+        operationType: "update",
+        updateDescription: { updatedFields: { writerLease: {}, expiresAt: new Date() } },
+      }),
+    ).toBe(false);
+  });
+});
+
+describe("LockWatcher", () => {
+  it("returns null if the collection cannot be watched", async () => {
+    expect(await LockWatcher.open(new MockCollection(), lockID)).toBeNull();
+  });
+
+  it("watches the lock document by lockID, and every delete", async () => {
+    const mockCollection = new MockCollection();
+    const stream = new MockChangeStream();
+    mockCollection.watch = jest.fn().mockReturnValue(stream);
+    const watcher = await LockWatcher.open(mockCollection, lockID);
+    expect(watcher).not.toBeNull();
+    expect(mockCollection.watch).toHaveBeenCalledWith(
+      [{ $match: { $or: [{ "fullDocument.lockID": lockID }, { operationType: "delete" }] } }],
+      { fullDocument: "updateLookup" },
+    );
+    watcher.close();
+    expect(stream.close).toHaveBeenCalledTimes(1);
+  });
+
+  it("wakes waiters when the lock may have been released", async () => {
+    const mockCollection = new MockCollection();
+    const stream = new MockChangeStream();
+    mockCollection.watch = jest.fn().mockReturnValue(stream);
+    const watcher = await LockWatcher.open(mockCollection, lockID);
+    const start = Date.now();
+    const waiting = watcher.wait(60000);
+    stream.emit("change", { operationType: "delete" });
+    await waiting;
+    expect(Date.now() - start).toBeLessThan(1000);
+    watcher.close();
+  });
+
+  it("does not wait if the signal is already aborted", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.watch = jest.fn().mockReturnValue(new MockChangeStream());
+    const watcher = await LockWatcher.open(mockCollection, lockID);
+    const controller = new AbortController();
+    controller.abort();
+    const start = Date.now();
+    await watcher.wait(60000, controller.signal);
+    expect(Date.now() - start).toBeLessThan(1000);
+    watcher.close();
+  });
+
+  it("falls back to sleeping if the change stream errors", async () => {
+    const mockCollection = new MockCollection();
+    const stream = new MockChangeStream();
+    mockCollection.watch = jest.fn().mockReturnValue(stream);
+    const watcher = await LockWatcher.open(mockCollection, lockID);
+    stream.emit("error", new Error("The $changeStream stage is only supported on replica sets"));
+    expect(stream.close).toHaveBeenCalledTimes(1);
+    const start = Date.now();
+    await watcher.wait(20);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(15);
+  });
+});
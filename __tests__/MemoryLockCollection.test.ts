@@ -0,0 +1,355 @@
+import { MemoryLockCollection } from "../lib/MemoryLockCollection";
+import { RWMutex, DuplicateKeyErrorCode, listLocks } from "../lib/RWMutex";
+import { Semaphore } from "../lib/Semaphore";
+import { forceUnlock } from "../lib/admin";
+import { MongoError } from "mongodb";
+
+const lockID = "lockID";
+const options = { sleepTime: 5, expiresAt: null };
+
+describe("MemoryLockCollection", () => {
+  describe("queries", () => {
+    const collection = new MemoryLockCollection();
+    beforeAll(async () => {
+      await collection.updateOne(
+        { lockID },
+        {
+          $set: {
+            writer: "",
+            readers: ["1", "2"],
+            queue: [
+              { clientID: "1", ticket: 1 },
+              { clientID: "2", ticket: 2 },
+            ],
+            count: 3,
+          },
+        },
+        { upsert: true },
+      );
+    });
+
+    it.each([
+      [{ writer: "" }, true],
+      [{ writer: null }, false],
+      [{ missing: null }, true],
+      [{ readers: "2" }, true],
+      [{ readers: ["1", "2"] }, true],
+      [{ readers: ["1"] }, false],
+      [{ readers: { $size: 2, $all: ["2", "1"] } }, true],
+      [{ readers: { $ne: "3" } }, true],
+      [{ readers: { $in: ["3", "1"] } }, true],
+      [{ missing: { $exists: false }, count: { $exists: true } }, true],
+      [{ count: { $gt: 2, $lte: 3 } }, true],
+      [{ count: { $lt: 3 } }, false],
+      [{ "queue.clientID": "2" }, true],
+      [{ queue: { $elemMatch: { clientID: "1", ticket: 2 } } }, false],
+      [{ queue: { $not: { $elemMatch: { ticket: { $gt: 1 } } } } }, false],
+      [{ $or: [{ writer: "1" }, { count: 3 }] }, true],
+      [{ $and: [{ writer: "" }, { readers: { $size: 1 } }] }, false],
+    ])("matches %j: %s", async (filter, matched) => {
+      const mongoLock = await collection.findOne({ lockID, ...filter });
+      expect(!!mongoLock).toBe(matched);
+    });
+
+    it("rejects unsupported operators", async () => {
+      await expect(collection.findOne({ lockID, writer: { $regex: "." } })).rejects.toThrow(
+        "unsupported query operator $regex",
+      );
+    });
+  });
+
+  describe("updates", () => {
+    it("applies update operators", async () => {
+      const collection = new MemoryLockCollection();
+      const expiresAt = new Date(Date.now() + 60000);
+      await collection.updateOne(
+        { lockID, writer: "" },
+        {
+          $set: { writer: "" },
+          $setOnInsert: { readers: ["1", "2", "3"], queue: [] },
+          $push: { readerLeases: { clientID: "1", expiresAt } },
+          $inc: { fencingCounter: 1 },
+          $max: { expiresAt },
+        },
+        { upsert: true },
+      );
+      await collection.updateOne(
+        { lockID },
+        {
+          $unset: { writer: "" },
+          $setOnInsert: { readers: [] },
+          $inc: { fencingCounter: 2 },
+          $max: { expiresAt: new Date(0) },
+          $addToSet: { readers: "1" },
+          $push: { queue: { clientID: "4", ticket: 1 } },
+        },
+      );
+      await collection.updateOne(
+        { lockID },
+        { $pull: { readers: { $in: ["2", "3"] }, readerLeases: { clientID: "1" } } },
+      );
+      const mongoLock = await collection.findOne({ lockID });
+      expect(mongoLock).toEqual({
+        _id: expect.anything(),
+        lockID,
+        readers: ["1"],
+        readerLeases: [],
+        queue: [{ clientID: "4", ticket: 1 }],
+        fencingCounter: 3,
+        expiresAt,
+      });
+    });
+
+    it("updates the array element the filter matched with the positional operator", async () => {
+      const collection = new MemoryLockCollection();
+      const queue = [
+        { clientID: "1", ticket: 1 },
+        { clientID: "2", ticket: 2 },
+      ];
+      await collection.updateOne({ lockID }, { $set: { queue } }, { upsert: true });
+      await collection.updateOne(
+        { lockID, "queue.clientID": "2" },
+        { $set: { "queue.$.ticket": 3 } },
+      );
+      await collection.updateOne(
+        { lockID, queue: { $elemMatch: { clientID: "1", ticket: 1 } } },
+        { $set: { "queue.$.ticket": 4 } },
+      );
+      expect((await collection.findOne({ lockID })).queue).toEqual([
+        { clientID: "1", ticket: 4 },
+        { clientID: "2", ticket: 3 },
+      ]);
+    });
+
+    it("updates the array elements an array filter matches", async () => {
+      const collection = new MemoryLockCollection();
+      const readerCounts = [
+        { clientID: "1", count: 1 },
+        { clientID: "2", count: 1 },
+      ];
+      await collection.updateOne({ lockID }, { $set: { readerCounts } }, { upsert: true });
+      await collection.updateOne(
+        { lockID },
+        { $inc: { "readerCounts.$[holder].count": 1 } },
+        { arrayFilters: [{ "holder.clientID": "2" }] },
+      );
+      expect((await collection.findOne({ lockID })).readerCounts).toEqual([
+        { clientID: "1", count: 1 },
+        { clientID: "2", count: 2 },
+      ]);
+      await expect(
+        collection.updateOne({ lockID }, { $inc: { "readerCounts.$[holder].count": 1 } }),
+      ).rejects.toThrow("no array filter found for identifier 'holder'");
+    });
+
+    it("reports whether a document was matched, modified or upserted", async () => {
+      const collection = new MemoryLockCollection();
+      expect(await collection.updateOne({ lockID }, { $set: { writer: "1" } })).toMatchObject({
+        matchedCount: 0,
+        upsertedCount: 0,
+      });
+      const upserted = await collection.updateOne(
+        { lockID },
+        { $set: { writer: "1" } },
+        { upsert: true },
+      );
+      expect(upserted).toMatchObject({ matchedCount: 0, upsertedCount: 1 });
+      expect(upserted.upsertedId).toBeDefined();
+      expect(await collection.updateOne({ lockID }, { $set: { writer: "1" } })).toMatchObject({
+        matchedCount: 1,
+        modifiedCount: 0,
+      });
+    });
+
+    it("returns the document from before or after the update", async () => {
+      const collection = new MemoryLockCollection();
+      const update = { $inc: { fencingCounter: 1 } };
+      expect(await collection.findOneAndUpdate({ lockID }, update, { upsert: true })).toBeNull();
+      expect(await collection.findOneAndUpdate({ lockID }, update, {})).toMatchObject({
+        fencingCounter: 1,
+      });
+      expect(
+        await collection.findOneAndUpdate({ lockID }, update, { returnDocument: "after" }),
+      ).toMatchObject({ fencingCounter: 3 });
+    });
+
+    it("rejects an upsert that would duplicate a lockID", async () => {
+      const collection = new MemoryLockCollection();
+      await collection.updateOne({ lockID }, { $set: { writer: "1" } }, { upsert: true });
+      const err = await collection
+        .updateOne({ lockID, writer: "" }, { $set: { writer: "2" } }, { upsert: true })
+        .catch((err) => err);
+      expect(err).toBeInstanceOf(MongoError);
+      expect(err.code).toBe(DuplicateKeyErrorCode);
+      expect((await collection.findOne({ lockID })).writer).toBe("1");
+    });
+
+    it("leaves the document alone if an update fails", async () => {
+      const collection = new MemoryLockCollection();
+      await collection.updateOne({ lockID }, { $set: { writer: "1" } }, { upsert: true });
+      await expect(
+        collection.updateOne({ lockID }, { $set: { writer: "2" }, $push: { writer: "3" } }),
+      ).rejects.toThrow("cannot apply $push to non-array field writer");
+      expect((await collection.findOne({ lockID })).writer).toBe("1");
+    });
+
+    it("returns copies of its documents", async () => {
+      const collection = new MemoryLockCollection();
+      await collection.updateOne({ lockID }, { $set: { readers: ["1"] } }, { upsert: true });
+      const mongoLock = await collection.findOne({ lockID });
+      mongoLock.readers.push("2");
+      expect((await collection.findOne({ lockID })).readers).toEqual(["1"]);
+    });
+  });
+
+  describe("TTL index", () => {
+    it("deletes documents once their expiresAt has passed", async () => {
+      const collection = new MemoryLockCollection();
+      const expiresAt = new Date(Date.now() + 20);
+      await collection.updateOne({ lockID }, { $set: { expiresAt } }, { upsert: true });
+      await collection.updateOne({ lockID: "b" }, { $set: { writer: "" } }, { upsert: true });
+      expect(await collection.findOne({ lockID })).not.toBeNull();
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      expect(await collection.findOne({ lockID })).toBeNull();
+      expect((await listLocks(collection)).map((state) => state.lockID)).toEqual(["b"]);
+    });
+
+    it("keeps expired documents without a TTL index", async () => {
+      const collection = new MemoryLockCollection({ ttlIndex: false });
+      const expiresAt = new Date(Date.now() - 1000);
+      await collection.updateOne({ lockID }, { $set: { expiresAt } }, { upsert: true });
+      expect(await collection.findOne({ lockID })).not.toBeNull();
+    });
+  });
+
+  describe("with locks", () => {
+    it("lets one writer or many readers hold a lock", async () => {
+      const collection = new MemoryLockCollection();
+      const lock1 = new RWMutex(collection, lockID, "1", options);
+      const lock2 = new RWMutex(collection, lockID, "2", options);
+      const lock3 = new RWMutex(collection, lockID, "3", options);
+      await lock1.lock();
+      expect(lock1.fencingToken).toBeGreaterThan(0);
+      expect(await lock2.tryLock()).toBe(false);
+      expect(await lock2.tryRLock()).toBe(false);
+      await lock1.unlock();
+      expect(await collection.findOne({ lockID })).toBeNull();
+
+      await lock2.rLock();
+      await lock3.rLock();
+      expect(await lock1.tryLock()).toBe(false);
+      await lock2.rUnlock();
+      expect((await lock1.getState()).readers).toEqual(["3"]);
+      await lock3.rUnlock();
+      expect(await lock1.tryLock()).toBe(true);
+    });
+
+    it("hands the lock to a waiting writer once it is released", async () => {
+      const collection = new MemoryLockCollection();
+      const lock1 = new RWMutex(collection, lockID, "1", options);
+      const lock2 = new RWMutex(collection, lockID, "2", options);
+      await lock1.rLock();
+      const acquired = lock2.lock();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect((await lock1.getState()).writer).toBeNull();
+      await lock1.rUnlock();
+      await acquired;
+      expect((await lock1.getState()).writer).toBe("2");
+    });
+
+    it("clears holders whose leases ran out", async () => {
+      const collection = new MemoryLockCollection({ ttlIndex: false });
+      const expired = new RWMutex(collection, lockID, "1", {
+        sleepTime: 5,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+      await expired.rLock();
+      const lock2 = new RWMutex(collection, lockID, "2", options);
+      await lock2.lock({ timeoutMs: 100 });
+      expect(await lock2.getState()).toMatchObject({ writer: "2", readers: [] });
+    });
+
+    it("upgrades and downgrades locks", async () => {
+      const collection = new MemoryLockCollection();
+      const lock1 = new RWMutex(collection, lockID, "1", options);
+      const lock2 = new RWMutex(collection, lockID, "2", options);
+      await lock1.rLock();
+      await lock2.rLock();
+      expect(await lock1.upgrade()).toBe(false);
+      await lock2.rUnlock();
+      expect(await lock1.upgrade()).toBe(true);
+      await lock1.downgrade();
+      expect(await lock2.tryRLock()).toBe(true);
+      expect(await lock1.getState()).toMatchObject({ writer: null, readers: ["1", "2"] });
+    });
+
+    it("lines up clients waiting for a lock with fair queueing", async () => {
+      const collection = new MemoryLockCollection();
+      const fairQueue = { ticketTime: 1000 };
+      const lock1 = new RWMutex(collection, lockID, "1", { ...options, fairQueue });
+      const lock2 = new RWMutex(collection, lockID, "2", { ...options, fairQueue });
+      const lock3 = new RWMutex(collection, lockID, "3", { ...options, fairQueue });
+      await lock1.lock();
+      const order: string[] = [];
+      const writer = lock2.lock().then(() => order.push("2"));
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      const reader = lock3.rLock().then(() => order.push("3"));
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      await lock1.unlock();
+      await writer;
+      await lock2.unlock();
+      await reader;
+      expect(order).toEqual(["2", "3"]);
+    });
+
+    it("counts reentrant holds and keeps readers out for a waiting writer", async () => {
+      const collection = new MemoryLockCollection();
+      const writerPreference = { intentTime: 1000 };
+      const lock1 = new RWMutex(collection, lockID, "1", {
+        ...options,
+        reentrancy: "count",
+        writerPreference,
+      });
+      const lock2 = new RWMutex(collection, lockID, "2", { ...options, writerPreference });
+      const lock3 = new RWMutex(collection, lockID, "3", { ...options, writerPreference });
+      await lock1.rLock();
+      await lock1.rLock();
+      const writer = lock2.lock();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(await lock3.tryRLock()).toBe(false);
+      await lock1.rUnlock();
+      expect((await lock1.getState()).readers).toEqual(["1"]);
+      await lock1.rUnlock();
+      await writer;
+      expect((await lock1.getState()).writer).toBe("2");
+    });
+
+    it("hands out semaphore permits up to the limit", async () => {
+      const collection = new MemoryLockCollection();
+      const semaphore1 = new Semaphore(collection, lockID, "1", 3, options);
+      const semaphore2 = new Semaphore(collection, lockID, "2", 3, options);
+      await semaphore1.acquire(2);
+      expect(await semaphore2.tryAcquire(2)).toBe(false);
+      expect(await semaphore2.tryAcquire(1)).toBe(true);
+      await semaphore1.release();
+      expect(await collection.findOne({ lockID })).toMatchObject({
+        used: 1,
+        holders: [{ clientID: "2", permits: 1 }],
+      });
+      await semaphore2.release();
+      expect(await collection.findOne({ lockID })).toBeNull();
+    });
+
+    it("works with the admin helpers", async () => {
+      const collection = new MemoryLockCollection();
+      const lock1 = new RWMutex(collection, lockID, "1", options);
+      const lock2 = new RWMutex(collection, lockID, "2", options);
+      await lock1.lock();
+      expect(await forceUnlock(collection, lockID, { reason: "stuck" })).toBe(true);
+      expect(await lock2.tryLock()).toBe(true);
+      expect((await collection.findOne({ lockID })).lastEviction).toMatchObject({
+        reason: "stuck",
+      });
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { MultiLock } from "../lib/MultiLock";
+import { LockReleaseError } from "../lib/errors";
+import MockCollection from "../__mocks__/MockCollection";
+import { MongoError } from "mongodb";
+
+const clientID = "1";
+
+const lockInUse = () => {
+  const err = new MongoError("E11000 duplicate key error collection");
+  err.code = 11000;
+  return Promise.reject(err);
+};
+
+describe("MultiLock", () => {
+  it("acquires the locks sorted by lockID and resolves to the write locks' fencing tokens", async () => {
+    const mockCollection = new MockCollection();
+    const multiLock = new MultiLock(
+      mockCollection,
+      [
+        { lockID: "c", mode: "write" },
+        { lockID: "a", mode: "read" },
+        { lockID: "b", mode: "write" },
+      ],
+      clientID,
+    );
+    expect(await multiLock.lock()).toEqual({ b: 1, c: 1 });
+    expect(mockCollection.updateOne.mock.calls[0][0]).toMatchObject({ lockID: "a" });
+    expect(mockCollection.findOneAndUpdate.mock.calls[0][0]).toMatchObject({ lockID: "b" });
+    expect(mockCollection.findOneAndUpdate.mock.calls[1][0]).toMatchObject({ lockID: "c" });
+  });
+
+  it("acquires a lock requested more than once for writing if any request asks for that", async () => {
+    const mockCollection = new MockCollection();
+    const multiLock = new MultiLock(
+      mockCollection,
+      [
+        { lockID: "a", mode: "write" },
+        { lockID: "a", mode: "read" },
+      ],
+      clientID,
+    );
+    await multiLock.lock();
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledTimes(1);
+    expect(mockCollection.updateOne).not.toHaveBeenCalled();
+  });
+
+  it("releases the locks it acquired if it cannot acquire them all", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOneAndUpdate = jest
+      .fn()
+      .mockReturnValueOnce(Promise.resolve({ fencingEpoch: 0, fencingCounter: 1 }))
+      .mockImplementation(lockInUse);
+    const multiLock = new MultiLock(
+      mockCollection,
+      [
+        { lockID: "a", mode: "write" },
+        { lockID: "b", mode: "write" },
+      ],
+      clientID,
+      { sleepTime: 5, expiresAt: null },
+    );
+    await expect(multiLock.lock({ timeoutMs: 20 })).rejects.toThrow(
+      "timed out acquiring lock b after 20ms",
+    );
+    expect(mockCollection.deleteOne).toHaveBeenCalledTimes(1);
+    expect(mockCollection.deleteOne.mock.calls[0][0]).toMatchObject({
+      lockID: "a",
+      writer: clientID,
+    });
+  });
+
+  it("releases every lock in reverse order", async () => {
+    const mockCollection = new MockCollection();
+    const multiLock = new MultiLock(
+      mockCollection,
+      [
+        { lockID: "a", mode: "read" },
+        { lockID: "b", mode: "write" },
+      ],
+      clientID,
+    );
+    await multiLock.lock();
+    await multiLock.unlock();
+    expect(mockCollection.deleteOne.mock.calls[0][0]).toMatchObject({
+      lockID: "b",
+      writer: clientID,
+    });
+    expect(mockCollection.deleteOne.mock.calls[1][0]).toMatchObject({ lockID: "a" });
+  });
+
+  it("keeps releasing the other locks if releasing one fails", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.deleteOne = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("connection interrupted"))
+      .mockReturnValue(Promise.resolve({ deletedCount: 1 }));
+    const multiLock = new MultiLock(
+      mockCollection,
+      [
+        { lockID: "a", mode: "write" },
+        { lockID: "b", mode: "write" },
+      ],
+      clientID,
+    );
+    await multiLock.lock();
+    await expect(multiLock.unlock()).rejects.toThrow(LockReleaseError);
+    expect(mockCollection.deleteOne).toHaveBeenCalledTimes(2);
+  });
+});
@@ -1,6 +1,30 @@
-import { RWMutex, emptyReadersQuery, emptyWriterQuery } from "../lib/RWMutex";
+import {
+  RWMutex,
+  emptyReadersQuery,
+  emptyWriterQuery,
+  expiredHolders,
+  fencingToken,
+  listLocks,
+  lockState,
+} from "../lib/RWMutex";
+import {
+  LockAbortedError,
+  LockAcquireError,
+  LockAttemptsExceededError,
+  LockError,
+  LockNotHeldError,
+  LockOverrideConflictError,
+  LockOverrideError,
+  LockReentryError,
+  LockReleaseError,
+  LockScopeError,
+  LockTimeoutError,
+} from "../lib/errors";
+import { MemoryLockCollection } from "../lib/MemoryLockCollection";
 import MockCollection from "../__mocks__/MockCollection";
 import { MongoError } from "mongodb";
+import { EventEmitter } from "events";
+import { hostname } from "os";
 
 // ---------- Defaults ----------
 const lockID = "lockID";
@@ -19,7 +43,7 @@ describe("RWMutex", () => {
       await lock.lock();
       const writerQuery = JSON.parse(JSON.stringify(emptyWriterQuery));
       writerQuery["$or"].push({ writer: clientID });
-      expect(mockCollection.updateOne).toHaveBeenCalledWith(
+      expect(mockCollection.findOneAndUpdate).toHaveBeenCalledWith(
         {
           lockID: lockID,
           $and: [emptyReadersQuery, writerQuery],
@@ -29,23 +53,30 @@ describe("RWMutex", () => {
             writer: clientID,
             readers: [],
           },
+          $setOnInsert: {
+            fencingEpoch: expect.any(Number),
+          },
+          $inc: {
+            fencingCounter: 1,
+          },
         },
-        { upsert: true },
+        { upsert: true, returnDocument: "after" },
       );
     });
 
     it("inserts a lock if none exists", async () => {
       const mockCollection = new MockCollection();
       const lock = new RWMutex(mockCollection, lockID, clientID);
-      mockCollection.updateOne = jest.fn().mockReturnValue(
+      mockCollection.findOneAndUpdate = jest.fn().mockReturnValue(
         Promise.resolve({
-          upsertedCount: 1,
+          fencingEpoch: 0,
+          fencingCounter: 1,
         }),
       );
       await lock.lock();
       const writerQuery = JSON.parse(JSON.stringify(emptyWriterQuery));
       writerQuery["$or"].push({ writer: clientID });
-      expect(mockCollection.updateOne).toHaveBeenCalledWith(
+      expect(mockCollection.findOneAndUpdate).toHaveBeenCalledWith(
         {
           lockID: lockID,
           $and: [emptyReadersQuery, writerQuery],
@@ -55,8 +86,14 @@ describe("RWMutex", () => {
             writer: clientID,
             readers: [],
           },
+          $setOnInsert: {
+            fencingEpoch: expect.any(Number),
+          },
+          $inc: {
+            fencingCounter: 1,
+          },
         },
-        { upsert: true },
+        { upsert: true, returnDocument: "after" },
       );
     });
 
@@ -64,10 +101,10 @@ describe("RWMutex", () => {
       const mockCollection = new MockCollection();
       const err = new MongoError("E11000 duplicate key error collection");
       err.code = 11000;
-      mockCollection.updateOne = jest
+      mockCollection.findOneAndUpdate = jest
         .fn()
         .mockRejectedValueOnce(err)
-        .mockReturnValueOnce(Promise.resolve({ upsertedCount: 1 }));
+        .mockReturnValueOnce(Promise.resolve({ fencingEpoch: 0, fencingCounter: 1 }));
       const lock = new RWMutex(mockCollection, lockID, clientID, {
         sleepTime: 1,
         expiresAt: null,
@@ -75,8 +112,8 @@ describe("RWMutex", () => {
       await lock.lock();
       const writerQuery = JSON.parse(JSON.stringify(emptyWriterQuery));
       writerQuery["$or"].push({ writer: clientID });
-      expect(mockCollection.updateOne).toHaveBeenCalledTimes(2);
-      expect(mockCollection.updateOne).toHaveBeenCalledWith(
+      expect(mockCollection.findOneAndUpdate).toHaveBeenCalledTimes(2);
+      expect(mockCollection.findOneAndUpdate).toHaveBeenCalledWith(
         {
           lockID: lockID,
           $and: [emptyReadersQuery, writerQuery],
@@ -86,8 +123,14 @@ describe("RWMutex", () => {
             writer: clientID,
             readers: [],
           },
+          $setOnInsert: {
+            fencingEpoch: expect.any(Number),
+          },
+          $inc: {
+            fencingCounter: 1,
+          },
         },
-        { upsert: true },
+        { upsert: true, returnDocument: "after" },
       );
     });
 
@@ -97,14 +140,14 @@ describe("RWMutex", () => {
         sleepTime: 1,
         expiresAt: null,
       });
-      mockCollection.updateOne = jest
+      mockCollection.findOneAndUpdate = jest
         .fn()
         .mockReturnValueOnce(Promise.resolve({ matchedCount: 1 }));
       await lock.lock();
       const writerQuery = JSON.parse(JSON.stringify(emptyWriterQuery));
       writerQuery["$or"].push({ writer: clientID });
-      expect(mockCollection.updateOne).toHaveBeenCalledTimes(1);
-      expect(mockCollection.updateOne).toHaveBeenCalledWith(
+      expect(mockCollection.findOneAndUpdate).toHaveBeenCalledTimes(1);
+      expect(mockCollection.findOneAndUpdate).toHaveBeenCalledWith(
         {
           lockID: lockID,
           $and: [emptyReadersQuery, writerQuery],
@@ -114,8 +157,14 @@ describe("RWMutex", () => {
             writer: clientID,
             readers: [],
           },
+          $setOnInsert: {
+            fencingEpoch: expect.any(Number),
+          },
+          $inc: {
+            fencingCounter: 1,
+          },
         },
-        { upsert: true },
+        { upsert: true, returnDocument: "after" },
       );
     });
   });
@@ -173,6 +222,119 @@ describe("RWMutex", () => {
     });
   });
 
+  describe(".tryLock()", () => {
+    it("returns true if the lock was acquired", async () => {
+      const mockCollection = new MockCollection();
+      const lock = new RWMutex(mockCollection, lockID, clientID);
+      expect(await lock.tryLock()).toBe(true);
+      const writerQuery = JSON.parse(JSON.stringify(emptyWriterQuery));
+      writerQuery["$or"].push({ writer: clientID });
+      expect(mockCollection.findOneAndUpdate).toHaveBeenCalledTimes(1);
+      expect(mockCollection.findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          lockID: lockID,
+          $and: [emptyReadersQuery, writerQuery],
+        },
+        {
+          $set: {
+            writer: clientID,
+            readers: [],
+          },
+          $setOnInsert: {
+            fencingEpoch: expect.any(Number),
+          },
+          $inc: {
+            fencingCounter: 1,
+          },
+        },
+        { upsert: true, returnDocument: "after" },
+      );
+    });
+
+    it("returns false without retrying if the lock is already in use", async () => {
+      const mockCollection = new MockCollection();
+      const err = new MongoError("E11000 duplicate key error collection");
+      err.code = 11000;
+      mockCollection.findOneAndUpdate = jest.fn().mockRejectedValue(err);
+      const lock = new RWMutex(mockCollection, lockID, clientID);
+      expect(await lock.tryLock()).toBe(false);
+      expect(mockCollection.findOneAndUpdate).toHaveBeenCalledTimes(1);
+    });
+
+    it("clears holders whose leases ran out and tries once more", async () => {
+      const collection = new MemoryLockCollection({ ttlIndex: false });
+      const expired = new RWMutex(collection, lockID, "2", {
+        sleepTime: 5,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+      await expired.lock();
+      const lock = new RWMutex(collection, lockID, clientID);
+      expect((await lock.getState()).mode).toBe("unlocked");
+      expect(await lock.tryLock()).toBe(true);
+      expect((await lock.getState()).writer).toBe(clientID);
+    });
+
+    it("returns an error if the attempt fails", async () => {
+      const mockCollection = new MockCollection();
+      mockCollection.findOneAndUpdate = jest
+        .fn()
+        .mockRejectedValue(new Error("connection interrupted"));
+      const lock = new RWMutex(mockCollection, lockID, clientID);
+      await expect(lock.tryLock()).rejects.toThrow(
+        "error acquiring lock lockID: connection interrupted",
+      );
+    });
+  });
+
+  describe(".tryRLock()", () => {
+    it("returns true if the lock was acquired", async () => {
+      const mockCollection = new MockCollection();
+      const lock = new RWMutex(mockCollection, lockID, clientID);
+      expect(await lock.tryRLock()).toBe(true);
+      expect(mockCollection.updateOne).toHaveBeenCalledTimes(1);
+      expect(mockCollection.updateOne).toHaveBeenCalledWith(
+        {
+          lockID,
+          $or: emptyWriterQuery["$or"],
+        },
+        {
+          $set: {
+            writer: "",
+          },
+          $addToSet: {
+            readers: clientID,
+          },
+          $setOnInsert: {
+            fencingEpoch: expect.any(Number),
+          },
+        },
+        { upsert: true },
+      );
+    });
+
+    it("returns false without retrying if a writer has the lock", async () => {
+      const mockCollection = new MockCollection();
+      const err = new MongoError("E11000 duplicate key error collection");
+      err.code = 11000;
+      mockCollection.updateOne = jest.fn().mockRejectedValue(err);
+      const lock = new RWMutex(mockCollection, lockID, clientID);
+      expect(await lock.tryRLock()).toBe(false);
+      expect(mockCollection.updateOne).toHaveBeenCalledTimes(1);
+    });
+
+    it("clears holders whose leases ran out and tries once more", async () => {
+      const collection = new MemoryLockCollection({ ttlIndex: false });
+      const expired = new RWMutex(collection, lockID, "2", {
+        sleepTime: 5,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+      await expired.lock();
+      const lock = new RWMutex(collection, lockID, clientID);
+      expect(await lock.tryRLock()).toBe(true);
+      expect(await lock.getState()).toMatchObject({ writer: null, readers: [clientID] });
+    });
+  });
+
   describe(".rLock()", () => {
     it("acquires the lock", async () => {
       const mockCollection = new MockCollection();
@@ -191,6 +353,9 @@ describe("RWMutex", () => {
           $addToSet: {
             readers: clientID,
           },
+          $setOnInsert: {
+            fencingEpoch: expect.any(Number),
+          },
         },
         { upsert: true },
       );
@@ -213,6 +378,9 @@ describe("RWMutex", () => {
           $addToSet: {
             readers: clientID,
           },
+          $setOnInsert: {
+            fencingEpoch: expect.any(Number),
+          },
         },
         { upsert: true },
       );
@@ -244,6 +412,9 @@ describe("RWMutex", () => {
           $addToSet: {
             readers: clientID,
           },
+          $setOnInsert: {
+            fencingEpoch: expect.any(Number),
+          },
         },
         { upsert: true },
       );
@@ -273,6 +444,9 @@ describe("RWMutex", () => {
           $addToSet: {
             readers: clientID,
           },
+          $setOnInsert: {
+            fencingEpoch: expect.any(Number),
+          },
         },
         { upsert: true },
       );
@@ -360,12 +534,14 @@ describe(".tryOverrideLockWriter()", () => {
   it("overrides the current writer of the lock", async () => {
     const mockCollection = new MockCollection();
     const lock = new RWMutex(mockCollection, lockID, clientID);
-    mockCollection.updateOne = jest.fn().mockReturnValue(Promise.resolve({ matchedCount: 1, upsertedCount: 0 }));
+    mockCollection.findOneAndUpdate = jest
+      .fn()
+      .mockReturnValue(Promise.resolve({ fencingEpoch: 0, fencingCounter: 2 }));
     await lock.tryOverrideLockWriter("oldClientID", false);
-    expect(mockCollection.updateOne).toHaveBeenCalledTimes(1);
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledTimes(1);
     const writerQuery = JSON.parse(JSON.stringify(emptyWriterQuery));
     writerQuery["$or"].push({ writer: "oldClientID" });
-    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledWith(
       {
         lockID: lockID,
         $or: writerQuery["$or"],
@@ -376,21 +552,27 @@ describe(".tryOverrideLockWriter()", () => {
         },
         $setOnInsert: {
           readers: [],
+          fencingEpoch: expect.any(Number),
+        },
+        $inc: {
+          fencingCounter: 1,
         },
       },
-      { upsert: false },
+      { upsert: false, returnDocument: "after" },
     );
   });
 
   it("creates a new lock if one does not exist", async () => {
     const mockCollection = new MockCollection();
     const lock = new RWMutex(mockCollection, lockID, clientID);
-    mockCollection.updateOne = jest.fn().mockReturnValue(Promise.resolve({ matchedCount: 0, upsertedCount: 1 }));
+    mockCollection.findOneAndUpdate = jest
+      .fn()
+      .mockReturnValue(Promise.resolve({ fencingEpoch: 0, fencingCounter: 1 }));
     await lock.tryOverrideLockWriter("oldClientID", true);
-    expect(mockCollection.updateOne).toHaveBeenCalledTimes(1);
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledTimes(1);
     const writerQuery = JSON.parse(JSON.stringify(emptyWriterQuery));
     writerQuery["$or"].push({ writer: "oldClientID" });
-    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledWith(
       {
         lockID: lockID,
         $or: writerQuery["$or"],
@@ -401,23 +583,38 @@ describe(".tryOverrideLockWriter()", () => {
         },
         $setOnInsert: {
           readers: [],
+          fencingEpoch: expect.any(Number),
+        },
+        $inc: {
+          fencingCounter: 1,
         },
       },
-      { upsert: true },
+      { upsert: true, returnDocument: "after" },
+    );
+  });
+
+  it("does not find a lock once it has been released", async () => {
+    const collection = new MemoryLockCollection({ ttlIndex: false });
+    const lock = new RWMutex(collection, lockID, clientID);
+    await lock.lock();
+    await lock.unlock();
+    expect(await collection.findOne({ lockID })).toBeNull();
+    await expect(lock.tryOverrideLockWriter("", false)).rejects.toThrow(
+      `error overriding lock ${lockID}: lock not found`,
     );
   });
 
   it("throws an error if the lock is not found and upsert is false", async () => {
     const mockCollection = new MockCollection();
     const lock = new RWMutex(mockCollection, lockID, clientID);
-    mockCollection.updateOne = jest.fn().mockReturnValue(Promise.resolve({ matchedCount: 0, upsertedCount: 0}));
+    mockCollection.findOneAndUpdate = jest.fn().mockReturnValue(Promise.resolve(null));
     await expect(lock.tryOverrideLockWriter("oldClientID", false)).rejects.toThrow(
       `error overriding lock ${lockID}: lock not found`,
     );
-    expect(mockCollection.updateOne).toHaveBeenCalledTimes(1);
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledTimes(1);
     const writerQuery = JSON.parse(JSON.stringify(emptyWriterQuery));
     writerQuery["$or"].push({ writer: "oldClientID" });
-    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledWith(
       {
         lockID: lockID,
         $or: writerQuery["$or"],
@@ -428,23 +625,27 @@ describe(".tryOverrideLockWriter()", () => {
         },
         $setOnInsert: {
           readers: [],
+          fencingEpoch: expect.any(Number),
+        },
+        $inc: {
+          fencingCounter: 1,
         },
       },
-      { upsert: false },
+      { upsert: false, returnDocument: "after" },
     );
   });
 
   it("throws an error if the lock is not found and upsert fails", async () => {
     const mockCollection = new MockCollection();
     const lock = new RWMutex(mockCollection, lockID, clientID);
-    mockCollection.updateOne = jest.fn().mockReturnValue(Promise.resolve({ matchedCount: 0, upsertedCount: 0}));
+    mockCollection.findOneAndUpdate = jest.fn().mockReturnValue(Promise.resolve(null));
     await expect(lock.tryOverrideLockWriter("oldClientID", true)).rejects.toThrow(
       `error overriding lock ${lockID}: lock not found, upsert failed`,
     );
-    expect(mockCollection.updateOne).toHaveBeenCalledTimes(1);
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledTimes(1);
     const writerQuery = JSON.parse(JSON.stringify(emptyWriterQuery));
     writerQuery["$or"].push({ writer: "oldClientID" });
-    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledWith(
       {
         lockID: lockID,
         $or: writerQuery["$or"],
@@ -455,9 +656,13 @@ describe(".tryOverrideLockWriter()", () => {
         },
         $setOnInsert: {
           readers: [],
+          fencingEpoch: expect.any(Number),
+        },
+        $inc: {
+          fencingCounter: 1,
         },
       },
-      { upsert: true },
+      { upsert: true, returnDocument: "after" },
     );
   });
 });
@@ -466,16 +671,18 @@ describe(".conditionalOverrideLockWriter()", () => {
     const mockCollection = new MockCollection();
     const lock = new RWMutex(mockCollection, lockID, clientID);
     mockCollection.findOne = jest.fn().mockReturnValue(Promise.resolve({ writer: "oldWriter" }));
-    mockCollection.updateOne = jest.fn().mockReturnValue(Promise.resolve({ matchedCount: 1 }));
+    mockCollection.findOneAndUpdate = jest
+      .fn()
+      .mockReturnValue(Promise.resolve({ matchedCount: 1 }));
     const conditional = jest.fn().mockReturnValue(Promise.resolve(true));
     const result = await lock.conditionalOverrideLockWriter(conditional);
     expect(result).toBe(true);
     expect(mockCollection.findOne).toHaveBeenCalledTimes(1);
     expect(mockCollection.findOne).toHaveBeenCalledWith({ lockID: lockID });
-    expect(mockCollection.updateOne).toHaveBeenCalledTimes(1);
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledTimes(1);
     const writerQuery = JSON.parse(JSON.stringify(emptyWriterQuery));
     writerQuery["$or"].push({ writer: "oldWriter" });
-    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledWith(
       {
         lockID: lockID,
         $or: writerQuery["$or"],
@@ -486,9 +693,13 @@ describe(".conditionalOverrideLockWriter()", () => {
         },
         $setOnInsert: {
           readers: [],
+          fencingEpoch: expect.any(Number),
+        },
+        $inc: {
+          fencingCounter: 1,
         },
       },
-      { upsert: true },
+      { upsert: true, returnDocument: "after" },
     );
     expect(conditional).toHaveBeenCalledTimes(1);
     expect(conditional).toHaveBeenCalledWith("oldWriter", clientID);
@@ -503,7 +714,7 @@ describe(".conditionalOverrideLockWriter()", () => {
     expect(result).toBe(false);
     expect(mockCollection.findOne).toHaveBeenCalledTimes(1);
     expect(mockCollection.findOne).toHaveBeenCalledWith({ lockID: lockID });
-    expect(mockCollection.updateOne).not.toHaveBeenCalled();
+    expect(mockCollection.findOneAndUpdate).not.toHaveBeenCalled();
     expect(conditional).toHaveBeenCalledTimes(1);
     expect(conditional).toHaveBeenCalledWith("oldWriter", clientID);
   });
@@ -512,16 +723,18 @@ describe(".conditionalOverrideLockWriter()", () => {
     const mockCollection = new MockCollection();
     const lock = new RWMutex(mockCollection, lockID, clientID);
     mockCollection.findOne = jest.fn().mockReturnValue(Promise.resolve(null));
-    mockCollection.updateOne = jest.fn().mockReturnValue(Promise.resolve({ upsertedCount: 1 }));
+    mockCollection.findOneAndUpdate = jest
+      .fn()
+      .mockReturnValue(Promise.resolve({ fencingEpoch: 0, fencingCounter: 1 }));
     const conditional = jest.fn().mockReturnValue(Promise.resolve(true));
     const result = await lock.conditionalOverrideLockWriter(conditional, true);
     expect(result).toBe(true);
     expect(mockCollection.findOne).toHaveBeenCalledTimes(1);
     expect(mockCollection.findOne).toHaveBeenCalledWith({ lockID: lockID });
-    expect(mockCollection.updateOne).toHaveBeenCalledTimes(1);
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledTimes(1);
     const writerQuery = JSON.parse(JSON.stringify(emptyWriterQuery));
     writerQuery["$or"].push({ writer: "" });
-    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledWith(
       {
         lockID: lockID,
         $or: writerQuery["$or"],
@@ -532,9 +745,13 @@ describe(".conditionalOverrideLockWriter()", () => {
         },
         $setOnInsert: {
           readers: [],
+          fencingEpoch: expect.any(Number),
+        },
+        $inc: {
+          fencingCounter: 1,
         },
       },
-      { upsert: true },
+      { upsert: true, returnDocument: "after" },
     );
     expect(conditional).not.toHaveBeenCalled();
   });
@@ -548,7 +765,7 @@ describe(".conditionalOverrideLockWriter()", () => {
     expect(result).toBe(false);
     expect(mockCollection.findOne).toHaveBeenCalledTimes(1);
     expect(mockCollection.findOne).toHaveBeenCalledWith({ lockID: lockID });
-    expect(mockCollection.updateOne).not.toHaveBeenCalled();
+    expect(mockCollection.findOneAndUpdate).not.toHaveBeenCalled();
     expect(conditional).not.toHaveBeenCalled();
   });
 
@@ -556,17 +773,17 @@ describe(".conditionalOverrideLockWriter()", () => {
     const mockCollection = new MockCollection();
     const lock = new RWMutex(mockCollection, lockID, clientID);
     mockCollection.findOne = jest.fn().mockReturnValue(Promise.resolve(null));
-    mockCollection.updateOne = jest.fn().mockReturnValue(Promise.resolve({ upsertedCount: 0 }));
+    mockCollection.findOneAndUpdate = jest.fn().mockReturnValue(Promise.resolve(null));
     const conditional = jest.fn().mockReturnValue(Promise.resolve(true));
     await expect(lock.conditionalOverrideLockWriter(conditional, true)).rejects.toThrow(
       `error overriding lock ${lockID}: lock not found, upsert failed`,
     );
     expect(mockCollection.findOne).toHaveBeenCalledTimes(1);
     expect(mockCollection.findOne).toHaveBeenCalledWith({ lockID: lockID });
-    expect(mockCollection.updateOne).toHaveBeenCalledTimes(1);
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledTimes(1);
     const writerQuery = JSON.parse(JSON.stringify(emptyWriterQuery));
     writerQuery["$or"].push({ writer: "" });
-    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledWith(
       {
         lockID: lockID,
         $or: writerQuery["$or"],
@@ -577,9 +794,13 @@ describe(".conditionalOverrideLockWriter()", () => {
         },
         $setOnInsert: {
           readers: [],
+          fencingEpoch: expect.any(Number),
+        },
+        $inc: {
+          fencingCounter: 1,
         },
       },
-      { upsert: true },
+      { upsert: true, returnDocument: "after" },
     );
     expect(conditional).not.toHaveBeenCalled();
   });
@@ -593,7 +814,7 @@ describe(".conditionalOverrideLockWriter()", () => {
       .mockReturnValueOnce(Promise.resolve({ writer: "2oldWriter" }));
     const err = new MongoError("E11000 duplicate key error collection");
     err.code = 11000;
-    mockCollection.updateOne = jest.fn().
+    mockCollection.findOneAndUpdate = jest.fn().
       mockRejectedValueOnce(err).
       mockReturnValueOnce(Promise.resolve({ matchedCount: 1 }));
     const conditional = jest.fn().mockReturnValue(Promise.resolve(true));
@@ -601,10 +822,10 @@ describe(".conditionalOverrideLockWriter()", () => {
     expect(result).toBe(true);
     expect(mockCollection.findOne).toHaveBeenCalledTimes(2);
     expect(mockCollection.findOne).toHaveBeenCalledWith({ lockID: lockID });
-    expect(mockCollection.updateOne).toHaveBeenCalledTimes(2);
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledTimes(2);
     let writerQuery = JSON.parse(JSON.stringify(emptyWriterQuery));
     writerQuery["$or"].push({ writer: "1oldWriter" });
-    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledWith(
       {
         lockID: lockID,
         $or: writerQuery["$or"],
@@ -615,13 +836,17 @@ describe(".conditionalOverrideLockWriter()", () => {
         },
         $setOnInsert: {
           readers: [],
+          fencingEpoch: expect.any(Number),
+        },
+        $inc: {
+          fencingCounter: 1,
         },
       },
-      { upsert: true },
+      { upsert: true, returnDocument: "after" },
     );
     writerQuery = JSON.parse(JSON.stringify(emptyWriterQuery));
     writerQuery["$or"].push({ writer: "2oldWriter" });
-    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledWith(
       {
         lockID: lockID,
         $or: writerQuery["$or"],
@@ -632,9 +857,13 @@ describe(".conditionalOverrideLockWriter()", () => {
         },
         $setOnInsert: {
           readers: [],
+          fencingEpoch: expect.any(Number),
+        },
+        $inc: {
+          fencingCounter: 1,
         },
       },
-      { upsert: true },
+      { upsert: true, returnDocument: "after" },
     );
     expect(conditional).toHaveBeenCalledTimes(2);
     expect(conditional).toHaveBeenCalledWith("1oldWriter", "3newWriter");
@@ -650,17 +879,17 @@ describe(".conditionalOverrideLockWriter()", () => {
       .mockReturnValueOnce(Promise.resolve({ writer: "2oldWriter" }));
     const err = new MongoError("E11000 duplicate key error collection");
     err.code = 11000;
-    mockCollection.updateOne = jest.fn().mockRejectedValueOnce(err);
+    mockCollection.findOneAndUpdate = jest.fn().mockRejectedValueOnce(err);
     const conditional = jest.fn().mockReturnValueOnce(Promise.resolve(true)).
       mockReturnValueOnce(Promise.resolve(false));
     const result = await lock.conditionalOverrideLockWriter(conditional);
     expect(result).toBe(false);
     expect(mockCollection.findOne).toHaveBeenCalledTimes(2);
     expect(mockCollection.findOne).toHaveBeenCalledWith({ lockID: lockID });
-    expect(mockCollection.updateOne).toHaveBeenCalledTimes(1);
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledTimes(1);
     const writerQuery = JSON.parse(JSON.stringify(emptyWriterQuery));
     writerQuery["$or"].push({ writer: "1oldWriter" });
-    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledWith(
       {
         lockID: lockID,
         $or: writerQuery["$or"],
@@ -671,9 +900,13 @@ describe(".conditionalOverrideLockWriter()", () => {
         },
         $setOnInsert: {
           readers: [],
+          fencingEpoch: expect.any(Number),
+        },
+        $inc: {
+          fencingCounter: 1,
         },
       },
-      { upsert: true },
+      { upsert: true, returnDocument: "after" },
     );
     expect(conditional).toHaveBeenCalledTimes(2);
     expect(conditional).toHaveBeenCalledWith("1oldWriter", "3newWriter");
@@ -681,3 +914,1549 @@ describe(".conditionalOverrideLockWriter()", () => {
   });
   
 });
+describe("heartbeat", () => {
+  const heartbeatOptions = {
+    sleepTime: 1,
+    expiresAt: null,
+    heartbeat: { leaseTime: 1000, interval: 5 },
+  };
+
+  it("sets a lease when acquiring the write lock and renews it until unlock", async () => {
+    const mockCollection = new MockCollection();
+    const lock = new RWMutex(mockCollection, lockID, clientID, heartbeatOptions);
+    await lock.lock();
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledWith(
+      expect.anything(),
+      {
+        $set: {
+          writer: clientID,
+          readers: [],
+          writerLease: { clientID, expiresAt: expect.any(Date) },
+        },
+        $setOnInsert: { fencingEpoch: expect.any(Number) },
+        $inc: { fencingCounter: 1 },
+        $max: { expiresAt: expect.any(Date) },
+      },
+      { upsert: true, returnDocument: "after" },
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+      { lockID, writer: clientID },
+      {
+        $set: { writerLease: { clientID, expiresAt: expect.any(Date) } },
+        $max: { expiresAt: expect.any(Date) },
+      },
+    );
+
+    await lock.unlock();
+    const calls = mockCollection.updateOne.mock.calls.length;
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(mockCollection.updateOne).toHaveBeenCalledTimes(calls);
+  });
+
+  it("renews the read lock until rUnlock", async () => {
+    const mockCollection = new MockCollection();
+    const lock = new RWMutex(mockCollection, lockID, clientID, heartbeatOptions);
+    await lock.rLock();
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+      { lockID, readers: clientID },
+      {
+        $set: { "readerLeases.$[holder].expiresAt": expect.any(Date) },
+        $max: { expiresAt: expect.any(Date) },
+      },
+      { arrayFilters: [{ "holder.clientID": clientID }] },
+    );
+
+    await lock.rUnlock();
+    const calls = mockCollection.updateOne.mock.calls.length;
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(mockCollection.updateOne).toHaveBeenCalledTimes(calls);
+  });
+
+  it("stops renewing and reports an error once the lock is no longer held", async () => {
+    const mockCollection = new MockCollection();
+    const onError = jest.fn();
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      ...heartbeatOptions,
+      heartbeat: { ...heartbeatOptions.heartbeat, onError },
+    });
+    mockCollection.updateOne = jest
+      .fn()
+      .mockReturnValueOnce(Promise.resolve({ matchedCount: 1 }))
+      .mockReturnValue(Promise.resolve({ matchedCount: 0 }));
+    await lock.lock();
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(mockCollection.updateOne).toHaveBeenCalledTimes(2);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(LockNotHeldError);
+    expect(onError.mock.calls[0][0].message).toBe("lock lockID not currently held by client: 1");
+  });
+
+  it("ignores a renewal that finishes after the lock was released", async () => {
+    const mockCollection = new MockCollection();
+    const onError = jest.fn();
+    const onEvent = jest.fn();
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      ...heartbeatOptions,
+      heartbeat: { ...heartbeatOptions.heartbeat, onError },
+      onEvent,
+    });
+    const renewals = [];
+    mockCollection.updateOne = jest.fn(() => new Promise((resolve) => renewals.push(resolve)));
+    await lock.lock();
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(renewals.length).toBeGreaterThan(0);
+    await lock.unlock();
+
+    renewals.forEach((finishRenewal) => finishRenewal({ matchedCount: 0 }));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(onError).not.toHaveBeenCalled();
+    expect(onEvent.mock.calls.map(([event]) => event.type)).toEqual(["acquired", "released"]);
+  });
+});
+
+describe("leases", () => {
+  const past = new Date(Date.now() - 1000);
+  const future = new Date(Date.now() + 60000);
+
+  it("finds holders whose own lease or the document's expiry has run out", () => {
+    expect(
+      expiredHolders({
+        lockID,
+        writer: "",
+        readers: ["1", "2", "3"],
+        readerLeases: [
+          { clientID: "1", expiresAt: past },
+          { clientID: "2", expiresAt: future },
+        ],
+        expiresAt: future,
+      }),
+    ).toEqual({ writer: null, readers: ["1"] });
+    expect(
+      expiredHolders({
+        lockID,
+        writer: "",
+        readers: ["1", "2", "3"],
+        readerLeases: [{ clientID: "2", expiresAt: future }],
+        expiresAt: past,
+      }),
+    ).toEqual({ writer: null, readers: ["1", "3"] });
+    expect(
+      expiredHolders({
+        lockID,
+        writer: "2",
+        readers: [],
+        writerLease: { clientID: "1", expiresAt: future },
+        expiresAt: past,
+      }),
+    ).toEqual({ writer: "2", readers: [] });
+  });
+
+  it("clears an expired writer and retries right away", async () => {
+    const mockCollection = new MockCollection();
+    const err = new MongoError("E11000 duplicate key error collection");
+    err.code = 11000;
+    mockCollection.findOne = jest.fn().mockReturnValue(
+      Promise.resolve({
+        lockID,
+        writer: "2",
+        readers: [],
+        writerLease: { clientID: "2", expiresAt: past },
+        expiresAt: future,
+      }),
+    );
+    mockCollection.findOneAndUpdate = jest
+      .fn()
+      .mockRejectedValueOnce(err)
+      .mockReturnValue(Promise.resolve({ fencingEpoch: 0, fencingCounter: 1 }));
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 60000,
+      expiresAt: future,
+    });
+    await lock.lock();
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledTimes(2);
+    expect(mockCollection.updateOne).toHaveBeenCalledTimes(1);
+    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+      {
+        lockID,
+        $and: [
+          {
+            writer: "2",
+            "writerLease.clientID": "2",
+            "writerLease.expiresAt": { $lte: expect.any(Date) },
+          },
+        ],
+      },
+      { $set: { writer: "" }, $unset: { writerLease: "", writerCount: "", writerMetadata: "" } },
+    );
+    expect(mockCollection.findOneAndUpdate).toHaveBeenLastCalledWith(
+      expect.anything(),
+      {
+        $set: {
+          writer: clientID,
+          readers: [],
+          writerLease: { clientID, expiresAt: future },
+        },
+        $setOnInsert: { fencingEpoch: expect.any(Number) },
+        $inc: { fencingCounter: 1 },
+        $max: { expiresAt: future },
+      },
+      { upsert: true, returnDocument: "after" },
+    );
+  });
+
+  it("clears expired readers without their own lease along with the document's expiry", async () => {
+    const mockCollection = new MockCollection();
+    const err = new MongoError("E11000 duplicate key error collection");
+    err.code = 11000;
+    mockCollection.findOne = jest
+      .fn()
+      .mockReturnValue(
+        Promise.resolve({ lockID, writer: "", readers: ["2", "3"], expiresAt: past }),
+      );
+    mockCollection.findOneAndUpdate = jest
+      .fn()
+      .mockRejectedValueOnce(err)
+      .mockReturnValue(Promise.resolve({ fencingEpoch: 0, fencingCounter: 1 }));
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 60000,
+      expiresAt: null,
+    });
+    await lock.lock();
+    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+      {
+        lockID,
+        $and: [
+          {
+            readers: "2",
+            "readerLeases.clientID": { $ne: "2" },
+            expiresAt: { $lte: expect.any(Date) },
+          },
+          {
+            readers: "3",
+            "readerLeases.clientID": { $ne: "3" },
+            expiresAt: { $lte: expect.any(Date) },
+          },
+          { expiresAt: { $lte: expect.any(Date) } },
+        ],
+      },
+      {
+        $unset: { expiresAt: "" },
+        $pull: {
+          readers: { $in: ["2", "3"] },
+          readerLeases: { clientID: { $in: ["2", "3"] } },
+          readerCounts: { clientID: { $in: ["2", "3"] } },
+          readerMetadata: { clientID: { $in: ["2", "3"] } },
+        },
+      },
+    );
+  });
+
+  it("drops the reader's lease on rUnlock", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.deleteOne = jest.fn().mockReturnValue(Promise.resolve({ deletedCount: 0 }));
+    const lock = new RWMutex(mockCollection, lockID, clientID, { sleepTime: 1, expiresAt: future });
+    await lock.rUnlock();
+    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+      { lockID, readers: clientID },
+      { $pull: { readers: clientID, readerLeases: { clientID } } },
+    );
+  });
+
+  it("keeps a lease for each reader, whatever its clientID", async () => {
+    const collection = new MemoryLockCollection({ ttlIndex: false });
+    const options = {
+      sleepTime: 1,
+      expiresAt: null,
+      heartbeat: { leaseTime: 60000, interval: 60000 },
+    };
+    const reader1 = new RWMutex(collection, lockID, "host.example.com:1", options);
+    const reader2 = new RWMutex(collection, lockID, "$2", options);
+    await reader1.rLock();
+    await reader2.rLock();
+    await reader1.rLock();
+    const { readerLeases } = await collection.findOne({ lockID });
+    expect(readerLeases.map((lease) => lease.clientID)).toEqual(["host.example.com:1", "$2"]);
+
+    await reader1.rUnlock();
+    expect(await collection.findOne({ lockID })).toMatchObject({
+      readers: ["$2"],
+      readerLeases: [{ clientID: "$2", expiresAt: expect.any(Date) }],
+    });
+    await reader2.rUnlock();
+  });
+});
+
+describe("acquire options", () => {
+  const lockInUse = () => {
+    const err = new MongoError("E11000 duplicate key error collection");
+    err.code = 11000;
+    return Promise.reject(err);
+  };
+
+  it("rejects with a LockTimeoutError and stops retrying once the timeout passes", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOneAndUpdate = jest.fn(lockInUse);
+    const lock = new RWMutex(mockCollection, lockID, clientID, { sleepTime: 10, expiresAt: null });
+    await expect(lock.lock({ timeoutMs: 25 })).rejects.toThrow(LockTimeoutError);
+    const calls = mockCollection.findOneAndUpdate.mock.calls.length;
+    expect(calls).toBeGreaterThanOrEqual(2);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledTimes(calls);
+  });
+
+  it("makes one attempt when the timeout is 0", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.updateOne = jest.fn(lockInUse);
+    const lock = new RWMutex(mockCollection, lockID, clientID, { sleepTime: 10, expiresAt: null });
+    await expect(lock.rLock({ timeoutMs: 0 })).rejects.toThrow(
+      "timed out acquiring lock lockID after 0ms",
+    );
+    expect(mockCollection.updateOne).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects with a LockAbortedError as soon as the signal is aborted", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.updateOne = jest.fn(lockInUse);
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 60000,
+      expiresAt: null,
+    });
+    const controller = new AbortController();
+    const lockPromise = lock.rLock({ signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort();
+    await expect(lockPromise).rejects.toThrow(LockAbortedError);
+    expect(mockCollection.updateOne).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects right away if the signal is aborted while an attempt is in flight", async () => {
+    const mockCollection = new MockCollection();
+    const controller = new AbortController();
+    mockCollection.findOneAndUpdate = jest.fn(() => {
+      controller.abort();
+      return lockInUse();
+    });
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 60000,
+      expiresAt: null,
+    });
+    const start = Date.now();
+    await expect(lock.lock({ signal: controller.signal })).rejects.toThrow(LockAbortedError);
+    expect(Date.now() - start).toBeLessThan(1000);
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not attempt to acquire the lock if the signal is already aborted", async () => {
+    const mockCollection = new MockCollection();
+    const lock = new RWMutex(mockCollection, lockID, clientID);
+    const controller = new AbortController();
+    controller.abort();
+    await expect(lock.lock({ signal: controller.signal })).rejects.toThrow(
+      "acquiring lock lockID was aborted",
+    );
+    expect(mockCollection.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+});
+
+describe("change stream wait strategy", () => {
+  it("retries as soon as the lock may have been released", async () => {
+    const mockCollection = new MockCollection();
+    const stream = Object.assign(new EventEmitter(), { close: jest.fn(() => Promise.resolve()) });
+    mockCollection.watch = jest.fn().mockReturnValue(stream);
+    const err = new MongoError("E11000 duplicate key error collection");
+    err.code = 11000;
+    mockCollection.findOneAndUpdate = jest
+      .fn()
+      .mockRejectedValueOnce(err)
+      .mockRejectedValueOnce(err)
+      .mockReturnValue(Promise.resolve({ fencingEpoch: 0, fencingCounter: 1 }));
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 60000,
+      expiresAt: null,
+      waitStrategy: "changeStream",
+    });
+    const lockPromise = lock.lock();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(mockCollection.watch).toHaveBeenCalledTimes(1);
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledTimes(2);
+
+    stream.emit("change", { operationType: "delete" });
+    await lockPromise;
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledTimes(3);
+    expect(stream.close).toHaveBeenCalledTimes(1);
+  });
+
+  it("polls if the collection cannot be watched", async () => {
+    const mockCollection = new MockCollection();
+    const err = new MongoError("E11000 duplicate key error collection");
+    err.code = 11000;
+    mockCollection.updateOne = jest
+      .fn()
+      .mockRejectedValueOnce(err)
+      .mockReturnValue(Promise.resolve({ matchedCount: 1 }));
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 1,
+      expiresAt: null,
+      waitStrategy: "changeStream",
+    });
+    await lock.rLock();
+    expect(mockCollection.updateOne).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("retry policy", () => {
+  const lockInUse = () => {
+    const err = new MongoError("E11000 duplicate key error collection");
+    err.code = 11000;
+    return Promise.reject(err);
+  };
+
+  it("waits as long as the retry policy says between attempts", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOneAndUpdate = jest
+      .fn()
+      .mockImplementationOnce(lockInUse)
+      .mockImplementationOnce(lockInUse)
+      .mockReturnValue(Promise.resolve({ fencingEpoch: 0, fencingCounter: 1 }));
+    const retryPolicy = jest.fn((attempt: number, previousDelay: number) => attempt);
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 60000,
+      expiresAt: null,
+      retryPolicy,
+    });
+    await lock.lock();
+    expect(retryPolicy).toHaveBeenCalledTimes(2);
+    expect(retryPolicy).toHaveBeenNthCalledWith(1, 1, 0);
+    expect(retryPolicy).toHaveBeenNthCalledWith(2, 2, 1);
+  });
+
+  it("gives up with a LockAttemptsExceededError after maxAttempts", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.updateOne = jest.fn(lockInUse);
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 1,
+      expiresAt: null,
+      maxAttempts: 3,
+    });
+    await expect(lock.rLock()).rejects.toThrow(LockAttemptsExceededError);
+    expect(mockCollection.updateOne).toHaveBeenCalledTimes(3);
+  });
+
+  it("applies to conditionalOverrideLockWriter", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOne = jest.fn().mockReturnValue(Promise.resolve({ writer: "oldWriter" }));
+    mockCollection.findOneAndUpdate = jest.fn(lockInUse);
+    const onEvent = jest.fn();
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 60000,
+      expiresAt: null,
+      retryPolicy: () => 1,
+      maxAttempts: 2,
+      onEvent,
+    });
+    await expect(lock.conditionalOverrideLockWriter(() => Promise.resolve(true))).rejects.toThrow(
+      "gave up on lock lockID after 2 attempts",
+    );
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledTimes(2);
+    expect(onEvent).toHaveBeenLastCalledWith({
+      type: "failed",
+      lockID,
+      clientID,
+      mode: "override",
+      error: expect.any(LockAttemptsExceededError),
+    });
+  });
+});
+
+describe("fencing tokens", () => {
+  it("are offset by the time the lock document was created", () => {
+    expect(
+      fencingToken({ lockID, writer: "", readers: [], fencingEpoch: 1000, fencingCounter: 3 }),
+    ).toBe(1003);
+    expect(fencingToken({ lockID, writer: "", readers: [] })).toBe(0);
+  });
+
+  it("are returned by lock() and cleared by unlock()", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOneAndUpdate = jest
+      .fn()
+      .mockReturnValue(
+        Promise.resolve({ lockID, writer: clientID, fencingEpoch: 1000, fencingCounter: 7 }),
+      );
+    const lock = new RWMutex(mockCollection, lockID, clientID);
+    expect(await lock.lock()).toBe(1007);
+    expect(lock.fencingToken).toBe(1007);
+    await lock.unlock();
+    expect(lock.fencingToken).toBeNull();
+  });
+
+  it("are returned by tryOverrideLockWriter()", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOneAndUpdate = jest
+      .fn()
+      .mockReturnValue(
+        Promise.resolve({ lockID, writer: clientID, fencingEpoch: 1000, fencingCounter: 8 }),
+      );
+    const lock = new RWMutex(mockCollection, lockID, clientID);
+    expect(await lock.tryOverrideLockWriter("oldWriter")).toBe(1008);
+    expect(lock.fencingToken).toBe(1008);
+  });
+});
+
+describe("reentrancy", () => {
+  const lockInUse = () => {
+    const err = new MongoError("E11000 duplicate key error collection");
+    err.code = 11000;
+    return Promise.reject(err);
+  };
+
+  it("counts holds when re-entering the write lock", async () => {
+    const mockCollection = new MockCollection();
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 1,
+      expiresAt: null,
+      reentrancy: "count",
+    });
+    await lock.lock();
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledTimes(1);
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledWith(
+      {
+        lockID,
+        writer: clientID,
+        $or: emptyReadersQuery["$or"],
+      },
+      { $inc: { writerCount: 1, fencingCounter: 1 } },
+      { returnDocument: "after" },
+    );
+  });
+
+  it("takes a first hold with a count of 1", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOneAndUpdate = jest
+      .fn()
+      .mockReturnValueOnce(Promise.resolve(null))
+      .mockReturnValue(Promise.resolve({ fencingEpoch: 0, fencingCounter: 1 }));
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 1,
+      expiresAt: null,
+      reentrancy: "count",
+    });
+    await lock.lock();
+    expect(mockCollection.findOneAndUpdate).toHaveBeenLastCalledWith(
+      {
+        lockID,
+        $and: [emptyReadersQuery, emptyWriterQuery],
+      },
+      {
+        $set: { writer: clientID, readers: [], writerCount: 1 },
+        $setOnInsert: { fencingEpoch: expect.any(Number) },
+        $inc: { fencingCounter: 1 },
+      },
+      { upsert: true, returnDocument: "after" },
+    );
+  });
+
+  it("counts holds when re-entering a read lock", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.updateOne = jest
+      .fn()
+      .mockReturnValueOnce(Promise.resolve({ matchedCount: 0 }))
+      .mockReturnValue(Promise.resolve({ matchedCount: 1 }));
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 1,
+      expiresAt: null,
+      reentrancy: "count",
+    });
+    await lock.rLock();
+    expect(mockCollection.updateOne).toHaveBeenLastCalledWith(
+      {
+        lockID,
+        $or: emptyWriterQuery["$or"],
+        readers: { $ne: clientID },
+      },
+      {
+        $set: { writer: "" },
+        $addToSet: { readers: clientID },
+        $setOnInsert: { fencingEpoch: expect.any(Number) },
+        $push: { readerCounts: { clientID, count: 1 } },
+      },
+      { upsert: true },
+    );
+
+    await lock.rLock();
+    expect(mockCollection.updateOne).toHaveBeenLastCalledWith(
+      {
+        lockID,
+        $or: emptyWriterQuery["$or"],
+        readers: clientID,
+      },
+      { $set: { writer: "" }, $inc: { "readerCounts.$[holder].count": 1 } },
+      { arrayFilters: [{ "holder.clientID": clientID }] },
+    );
+  });
+
+  it("only releases the lock once the last hold is dropped", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.updateOne = jest
+      .fn()
+      .mockReturnValueOnce(Promise.resolve({ matchedCount: 1 }))
+      .mockReturnValueOnce(Promise.resolve({ matchedCount: 0 }));
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 1,
+      expiresAt: null,
+      reentrancy: "count",
+    });
+    await lock.unlock();
+    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+      { lockID, writer: clientID, writerCount: { $gt: 1 } },
+      { $inc: { writerCount: -1 } },
+    );
+    expect(mockCollection.deleteOne).not.toHaveBeenCalled();
+
+    await lock.unlock();
+    expect(mockCollection.deleteOne).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects with a LockReentryError when re-entering is an error", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOneAndUpdate = jest.fn(lockInUse);
+    mockCollection.findOne = jest
+      .fn()
+      .mockReturnValue(Promise.resolve({ lockID, writer: clientID, readers: [] }));
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 1,
+      expiresAt: null,
+      reentrancy: "error",
+    });
+    await expect(lock.lock()).rejects.toThrow(LockReentryError);
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it("waits as usual for a lock held by someone else when re-entering is an error", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.updateOne = jest
+      .fn()
+      .mockImplementationOnce(lockInUse)
+      .mockReturnValue(Promise.resolve({ matchedCount: 1 }));
+    mockCollection.findOne = jest
+      .fn()
+      .mockReturnValue(Promise.resolve({ lockID, writer: "2", readers: [] }));
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 1,
+      expiresAt: null,
+      reentrancy: "error",
+    });
+    await lock.rLock();
+    expect(mockCollection.updateOne).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("writer preference", () => {
+  const options = { sleepTime: 1, expiresAt: null, writerPreference: { intentTime: 5000 } };
+  const lockInUse = () => {
+    const err = new MongoError("E11000 duplicate key error collection");
+    err.code = 11000;
+    return Promise.reject(err);
+  };
+
+  it("registers a waiting writer's intent and drops it once the lock is acquired", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOneAndUpdate = jest
+      .fn()
+      .mockImplementationOnce(lockInUse)
+      .mockReturnValue(Promise.resolve({ fencingEpoch: 0, fencingCounter: 1 }));
+    mockCollection.updateOne = jest.fn().mockReturnValue(Promise.resolve({ matchedCount: 0 }));
+    const lock = new RWMutex(mockCollection, lockID, clientID, options);
+    await lock.lock();
+    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+      { lockID, "writerIntents.clientID": clientID },
+      { $set: { "writerIntents.$.expiresAt": expect.any(Date) } },
+    );
+    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+      { lockID, "writerIntents.clientID": { $ne: clientID } },
+      { $push: { writerIntents: { clientID, expiresAt: expect.any(Date) } } },
+    );
+    expect(mockCollection.findOneAndUpdate).toHaveBeenLastCalledWith(
+      expect.anything(),
+      expect.objectContaining({ $pull: { writerIntents: { clientID } } }),
+      { upsert: true, returnDocument: "after" },
+    );
+  });
+
+  it("withdraws a waiting writer's intent when it gives up", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOneAndUpdate = jest.fn(lockInUse);
+    const lock = new RWMutex(mockCollection, lockID, clientID, { ...options, maxAttempts: 2 });
+    await expect(lock.lock()).rejects.toThrow(LockAttemptsExceededError);
+    expect(mockCollection.updateOne).toHaveBeenLastCalledWith(
+      { lockID },
+      { $pull: { writerIntents: { clientID } } },
+    );
+  });
+
+  it("keeps new readers out while a writer is waiting", async () => {
+    const mockCollection = new MockCollection();
+    const lock = new RWMutex(mockCollection, lockID, clientID, options);
+    await lock.rLock();
+    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+      {
+        lockID,
+        $or: emptyWriterQuery["$or"],
+        $and: [
+          {
+            $or: [
+              { readers: clientID },
+              { writerIntents: { $not: { $elemMatch: { expiresAt: { $gt: expect.any(Date) } } } } },
+            ],
+          },
+        ],
+      },
+      expect.anything(),
+      { upsert: true },
+    );
+  });
+
+  it("lets current readers re-enter the lock while a writer is waiting", async () => {
+    const collection = new MemoryLockCollection({ ttlIndex: false });
+    const reader = new RWMutex(collection, lockID, "1", options);
+    const newReader = new RWMutex(collection, lockID, "2", options);
+    const writer = new RWMutex(collection, lockID, "3", options);
+    await reader.rLock();
+    const writing = writer.lock({ timeoutMs: 1000 });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(await newReader.tryRLock()).toBe(false);
+    await reader.rLock({ timeoutMs: 100 });
+    await reader.rUnlock();
+    await writing;
+    await writer.unlock();
+  });
+});
+
+describe("fair queueing", () => {
+  const options = { sleepTime: 1, expiresAt: null, fairQueue: { ticketTime: 5000 } };
+  const lockInUse = () => {
+    const err = new MongoError("E11000 duplicate key error collection");
+    err.code = 11000;
+    return Promise.reject(err);
+  };
+  const notOurTurn = (ticket?: number) => ({
+    $not: {
+      $elemMatch:
+        ticket === undefined
+          ? { expiresAt: { $gt: expect.any(Date) } }
+          : { expiresAt: { $gt: expect.any(Date) }, ticket: { $lt: ticket } },
+    },
+  });
+
+  it("only lets a writer take the lock when nobody is waiting", async () => {
+    const mockCollection = new MockCollection();
+    const lock = new RWMutex(mockCollection, lockID, clientID, options);
+    await lock.lock();
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledWith(
+      {
+        lockID,
+        $and: [
+          emptyReadersQuery,
+          { $or: [...emptyWriterQuery["$or"], { writer: clientID }] },
+          { $or: [{ writer: clientID }, { queue: notOurTurn() }] },
+        ],
+      },
+      expect.objectContaining({ $pull: { queue: { clientID } } }),
+      { upsert: true, returnDocument: "after" },
+    );
+  });
+
+  it("takes a ticket when it has to wait, and waits for the clients ahead of it", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOneAndUpdate = jest
+      .fn()
+      .mockImplementationOnce(lockInUse)
+      .mockReturnValue(Promise.resolve({ fencingEpoch: 0, fencingCounter: 1 }));
+    mockCollection.findOne = jest.fn().mockReturnValue(Promise.resolve({ lockID, nextTicket: 4 }));
+    const lock = new RWMutex(mockCollection, lockID, clientID, { ...options, reentrancy: "error" });
+    await lock.lock();
+    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+      { lockID, nextTicket: 4 },
+      {
+        $set: { nextTicket: 5 },
+        $push: { queue: { clientID, mode: "write", ticket: 5, expiresAt: expect.any(Date) } },
+        $setOnInsert: { writer: "", readers: [], fencingEpoch: expect.any(Number) },
+      },
+      { upsert: true },
+    );
+    expect(mockCollection.findOneAndUpdate).toHaveBeenLastCalledWith(
+      {
+        lockID,
+        $and: [emptyReadersQuery, emptyWriterQuery, { queue: notOurTurn(5) }],
+      },
+      expect.anything(),
+      { upsert: true, returnDocument: "after" },
+    );
+    expect(lock._ticket).toBeNull();
+  });
+
+  it("renews its ticket on every attempt", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOneAndUpdate = jest
+      .fn()
+      .mockImplementationOnce(lockInUse)
+      .mockImplementationOnce(lockInUse)
+      .mockReturnValue(Promise.resolve({ fencingEpoch: 0, fencingCounter: 1 }));
+    const lock = new RWMutex(mockCollection, lockID, clientID, options);
+    await lock.lock();
+    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+      { lockID, queue: { $elemMatch: { clientID, ticket: 1 } } },
+      { $set: { "queue.$.expiresAt": expect.any(Date) } },
+    );
+  });
+
+  it("lets readers in alongside the readers ahead of them", async () => {
+    const mockCollection = new MockCollection();
+    const lock = new RWMutex(mockCollection, lockID, clientID, options);
+    await lock.rLock();
+    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+      {
+        lockID,
+        $or: emptyWriterQuery["$or"],
+        $and: [
+          {
+            $or: [
+              { readers: clientID },
+              {
+                queue: {
+                  $not: { $elemMatch: { expiresAt: { $gt: expect.any(Date) }, mode: "write" } },
+                },
+              },
+            ],
+          },
+        ],
+      },
+      expect.objectContaining({ $pull: { queue: { clientID } } }),
+      { upsert: true },
+    );
+  });
+
+  it("leaves the queue when it gives up", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOneAndUpdate = jest.fn(lockInUse);
+    const lock = new RWMutex(mockCollection, lockID, clientID, { ...options, maxAttempts: 2 });
+    await expect(lock.lock()).rejects.toThrow(LockAttemptsExceededError);
+    expect(mockCollection.updateOne).toHaveBeenLastCalledWith(
+      { lockID },
+      { $pull: { queue: { clientID } } },
+    );
+    expect(lock._ticket).toBeNull();
+  });
+
+  it("keeps the lock document around for waiting clients when releasing", async () => {
+    const mockCollection = new MockCollection();
+    const lock = new RWMutex(mockCollection, lockID, clientID, options);
+    await lock.unlock();
+    expect(mockCollection.deleteOne).toHaveBeenCalledWith({
+      lockID,
+      writer: clientID,
+      $or: emptyReadersQuery["$or"],
+      queue: notOurTurn(),
+    });
+  });
+
+  it("clears abandoned tickets while waiting", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOneAndUpdate = jest
+      .fn()
+      .mockImplementationOnce(lockInUse)
+      .mockReturnValue(Promise.resolve({ fencingEpoch: 0, fencingCounter: 1 }));
+    mockCollection.findOne = jest.fn().mockReturnValue(
+      Promise.resolve({
+        lockID,
+        writer: "2",
+        readers: [],
+        queue: [
+          { clientID: "3", mode: "write", ticket: 1, expiresAt: new Date(Date.now() - 1000) },
+        ],
+        nextTicket: 1,
+      }),
+    );
+    const lock = new RWMutex(mockCollection, lockID, clientID, options);
+    await lock.lock();
+    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+      { lockID },
+      { $pull: { queue: { expiresAt: { $lte: expect.any(Date) } } } },
+    );
+  });
+});
+
+describe("errors", () => {
+  const lockInUse = () => {
+    const err = new MongoError("E11000 duplicate key error collection");
+    err.code = 11000;
+    return Promise.reject(err);
+  };
+
+  it("wraps failures to acquire a lock in a LockAcquireError", async () => {
+    const mockCollection = new MockCollection();
+    const cause = new MongoError("connection interrupted");
+    mockCollection.findOneAndUpdate = jest.fn().mockRejectedValue(cause);
+    const lock = new RWMutex(mockCollection, lockID, clientID);
+    const err = await lock.lock().catch((err) => err);
+    expect(err).toBeInstanceOf(LockAcquireError);
+    expect(err).toBeInstanceOf(LockError);
+    expect(err).toMatchObject({ name: "LockAcquireError", lockID, clientID, cause });
+    expect(err.message).toBe("error acquiring lock lockID: connection interrupted");
+  });
+
+  it("wraps failures to release a lock in a LockReleaseError", async () => {
+    const mockCollection = new MockCollection();
+    const cause = new MongoError("connection interrupted");
+    mockCollection.deleteOne = jest.fn().mockRejectedValue(cause);
+    const lock = new RWMutex(mockCollection, lockID, clientID);
+    const err = await lock.rUnlock().catch((err) => err);
+    expect(err).toBeInstanceOf(LockReleaseError);
+    expect(err).toMatchObject({ lockID, clientID, cause });
+  });
+
+  it("rejects releasing a lock that is not held with a LockNotHeldError", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.deleteOne = jest.fn().mockReturnValue(Promise.resolve({ deletedCount: 0 }));
+    mockCollection.updateOne = jest.fn().mockReturnValue(Promise.resolve({ matchedCount: 0 }));
+    const lock = new RWMutex(mockCollection, lockID, clientID);
+    const err = await lock.unlock().catch((err) => err);
+    expect(err).toBeInstanceOf(LockNotHeldError);
+    expect(err).toMatchObject({ name: "LockNotHeldError", lockID, clientID });
+    expect(err.cause).toBeUndefined();
+  });
+
+  it("rejects overriding a lock another writer took with a LockOverrideConflictError", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOneAndUpdate = jest.fn(lockInUse);
+    const lock = new RWMutex(mockCollection, lockID, clientID);
+    const err = await lock.tryOverrideLockWriter("oldClientID", true).catch((err) => err);
+    expect(err).toBeInstanceOf(LockOverrideConflictError);
+    expect(err).toBeInstanceOf(LockOverrideError);
+    expect(err.message).toBe("error overriding lock lockID: lock already held by another writer");
+    expect(err.cause).toBeInstanceOf(MongoError);
+  });
+
+  it("rejects with a LockTimeoutError when overriding a lock takes too long", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOne = jest.fn().mockReturnValue(Promise.resolve({ writer: "oldWriter" }));
+    mockCollection.findOneAndUpdate = jest.fn(lockInUse);
+    const lock = new RWMutex(mockCollection, lockID, clientID, { sleepTime: 5, expiresAt: null });
+    const err = await lock
+      .conditionalOverrideLockWriter(() => Promise.resolve(true), true, 20)
+      .catch((err) => err);
+    expect(err).toBeInstanceOf(LockTimeoutError);
+    expect(err).toMatchObject({ lockID, clientID, timeoutMs: 20 });
+  });
+});
+
+describe("scoped locks", () => {
+  it("runs the callback while holding the write lock and releases it afterwards", async () => {
+    const mockCollection = new MockCollection();
+    const lock = new RWMutex(mockCollection, lockID, clientID);
+    const fn = jest.fn(async (token: number) => {
+      expect(mockCollection.deleteOne).not.toHaveBeenCalled();
+      return token * 2;
+    });
+    expect(await lock.withLock(fn)).toBe(2);
+    expect(fn).toHaveBeenCalledWith(1);
+    expect(mockCollection.deleteOne).toHaveBeenCalledTimes(1);
+  });
+
+  it("releases the read lock when the callback fails", async () => {
+    const mockCollection = new MockCollection();
+    const lock = new RWMutex(mockCollection, lockID, clientID);
+    const err = new Error("callback failed");
+    await expect(lock.withRLock(() => Promise.reject(err))).rejects.toBe(err);
+    expect(mockCollection.deleteOne).toHaveBeenCalledWith({
+      lockID,
+      $or: emptyWriterQuery["$or"],
+      readers: { $size: 1, $all: [clientID] },
+    });
+  });
+
+  it("does not run the callback if the lock is not acquired", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOneAndUpdate = jest
+      .fn()
+      .mockRejectedValue(new Error("connection interrupted"));
+    const lock = new RWMutex(mockCollection, lockID, clientID);
+    const fn = jest.fn();
+    await expect(lock.withLock(fn)).rejects.toThrow(LockAcquireError);
+    expect(fn).not.toHaveBeenCalled();
+    expect(mockCollection.deleteOne).not.toHaveBeenCalled();
+  });
+
+  it("surfaces release errors", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.deleteOne = jest.fn().mockRejectedValue(new Error("connection interrupted"));
+    const lock = new RWMutex(mockCollection, lockID, clientID);
+    await expect(lock.withLock(() => "done")).rejects.toThrow(LockReleaseError);
+  });
+
+  it("surfaces both errors if the callback and the release fail", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.deleteOne = jest.fn().mockRejectedValue(new Error("connection interrupted"));
+    const lock = new RWMutex(mockCollection, lockID, clientID);
+    const err = await lock
+      .withLock(() => {
+        throw new Error("callback failed");
+      })
+      .catch((err) => err);
+    expect(err).toBeInstanceOf(LockScopeError);
+    expect(err.error.message).toBe("callback failed");
+    expect(err.releaseError).toBeInstanceOf(LockReleaseError);
+    expect(err.message).toBe(
+      "error while holding lock lockID: callback failed, then releasing it failed: " +
+        "error releasing lock lockID: connection interrupted",
+    );
+  });
+
+  it("releases a lock handle when it is disposed", async () => {
+    const mockCollection = new MockCollection();
+    const lock = new RWMutex(mockCollection, lockID, clientID);
+    const handle = await lock.lockHandle();
+    expect(handle.fencingToken).toBe(1);
+    expect(mockCollection.deleteOne).not.toHaveBeenCalled();
+    await handle[Symbol.asyncDispose]();
+    expect(mockCollection.deleteOne).toHaveBeenCalledTimes(1);
+  });
+
+  it("only releases a lock handle once", async () => {
+    const mockCollection = new MockCollection();
+    const lock = new RWMutex(mockCollection, lockID, clientID);
+    const handle = await lock.rLockHandle();
+    expect(handle.fencingToken).toBeNull();
+    await handle.release();
+    await handle[Symbol.asyncDispose]();
+    expect(mockCollection.deleteOne).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("upgrade and downgrade", () => {
+  const future = new Date(Date.now() + 60000);
+  const claimableWriterQuery = [...emptyWriterQuery["$or"], { writer: clientID }];
+
+  it("upgrades the read lock in one update when this client is the only reader", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOneAndUpdate = jest
+      .fn()
+      .mockReturnValue(Promise.resolve({ fencingEpoch: 100, fencingCounter: 3 }));
+    const lock = new RWMutex(mockCollection, lockID, clientID);
+    expect(await lock.upgrade()).toBe(true);
+    expect(lock.fencingToken).toBe(103);
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledWith(
+      { lockID, readers: [clientID], $or: claimableWriterQuery },
+      { $set: { writer: clientID, readers: [] }, $inc: { fencingCounter: 1 } },
+      { returnDocument: "after" },
+    );
+    expect(mockCollection.updateOne).not.toHaveBeenCalled();
+  });
+
+  it("gives up right away if other readers hold the lock", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOneAndUpdate = jest.fn().mockReturnValue(Promise.resolve(null));
+    const lock = new RWMutex(mockCollection, lockID, clientID);
+    expect(await lock.upgrade()).toBe(false);
+    expect(lock.fencingToken).toBeNull();
+    expect(mockCollection.updateOne).toHaveBeenNthCalledWith(
+      1,
+      { lockID, readers: clientID, $or: claimableWriterQuery },
+      { $set: { writer: clientID } },
+    );
+    expect(mockCollection.updateOne).toHaveBeenNthCalledWith(
+      2,
+      { lockID, writer: clientID, readers: clientID },
+      { $set: { writer: "" } },
+    );
+  });
+
+  it("keeps new readers out while waiting for the other readers to release the lock", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOneAndUpdate = jest
+      .fn()
+      .mockReturnValueOnce(Promise.resolve(null))
+      .mockReturnValue(Promise.resolve({ fencingEpoch: 0, fencingCounter: 1 }));
+    const lock = new RWMutex(mockCollection, lockID, clientID, { sleepTime: 1, expiresAt: null });
+    expect(await lock.upgrade({ wait: true })).toBe(true);
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledTimes(2);
+    expect(mockCollection.updateOne).toHaveBeenCalledTimes(1);
+    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+      { lockID, readers: clientID, $or: claimableWriterQuery },
+      { $set: { writer: clientID } },
+    );
+  });
+
+  it("drops its claim when it stops waiting", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOneAndUpdate = jest.fn().mockReturnValue(Promise.resolve(null));
+    const lock = new RWMutex(mockCollection, lockID, clientID, { sleepTime: 5, expiresAt: null });
+    await expect(lock.upgrade({ wait: true, timeoutMs: 20 })).rejects.toThrow(LockTimeoutError);
+    expect(mockCollection.updateOne).toHaveBeenLastCalledWith(
+      { lockID, writer: clientID, readers: clientID },
+      { $set: { writer: "" } },
+    );
+  });
+
+  it("resolves to false if another client is the writer", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOneAndUpdate = jest.fn().mockReturnValue(Promise.resolve(null));
+    mockCollection.updateOne = jest.fn().mockReturnValue(Promise.resolve({ matchedCount: 0 }));
+    mockCollection.findOne = jest
+      .fn()
+      .mockReturnValue(Promise.resolve({ lockID, writer: "2", readers: [clientID, "3"] }));
+    const lock = new RWMutex(mockCollection, lockID, clientID, { sleepTime: 1, expiresAt: null });
+    expect(await lock.upgrade({ wait: true })).toBe(false);
+  });
+
+  it("rejects upgrading a read lock this client does not hold", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOneAndUpdate = jest.fn().mockReturnValue(Promise.resolve(null));
+    mockCollection.updateOne = jest.fn().mockReturnValue(Promise.resolve({ matchedCount: 0 }));
+    const lock = new RWMutex(mockCollection, lockID, clientID);
+    await expect(lock.upgrade()).rejects.toThrow(LockNotHeldError);
+  });
+
+  it("moves the lease and count over when upgrading", async () => {
+    const mockCollection = new MockCollection();
+    const options = { sleepTime: 1, expiresAt: future, reentrancy: "count" as const };
+    const lock = new RWMutex(mockCollection, lockID, clientID, options);
+    await lock.upgrade();
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledWith(
+      expect.anything(),
+      {
+        $set: {
+          writer: clientID,
+          readers: [],
+          writerCount: 1,
+          writerLease: { clientID, expiresAt: future },
+        },
+        $unset: { readerLeases: "", readerCounts: "" },
+        $inc: { fencingCounter: 1 },
+        $max: { expiresAt: future },
+      },
+      { returnDocument: "after" },
+    );
+  });
+
+  it("downgrades the write lock in one update", async () => {
+    const mockCollection = new MockCollection();
+    const options = { sleepTime: 1, expiresAt: future, reentrancy: "count" as const };
+    const lock = new RWMutex(mockCollection, lockID, clientID, options);
+    await lock.lock();
+    await lock.downgrade();
+    expect(lock.fencingToken).toBeNull();
+    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+      { lockID, writer: clientID },
+      {
+        $set: { writer: "" },
+        $addToSet: { readers: clientID },
+        $push: {
+          readerCounts: { clientID, count: 1 },
+          readerLeases: { clientID, expiresAt: future },
+        },
+        $unset: { writerLease: "", writerCount: "" },
+        $max: { expiresAt: future },
+      },
+    );
+  });
+
+  it("rejects downgrading a write lock this client does not hold", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.updateOne = jest.fn().mockReturnValue(Promise.resolve({ matchedCount: 0 }));
+    const lock = new RWMutex(mockCollection, lockID, clientID);
+    await expect(lock.downgrade()).rejects.toThrow(LockNotHeldError);
+  });
+});
+
+describe("inspection", () => {
+  const past = new Date(Date.now() - 60000);
+  const future = new Date(Date.now() + 60000);
+
+  it("normalizes the ways a lock document can record that nobody holds it", () => {
+    const unlocked = { lockID, writer: null, readers: [], expiresAt: null, mode: "unlocked" };
+    expect(lockState(lockID, null)).toEqual(unlocked);
+    expect(lockState(lockID, { lockID, writer: "", readers: [] })).toEqual(unlocked);
+    expect(lockState(lockID, { lockID, writer: null, readers: null })).toEqual(unlocked);
+    expect(lockState(lockID, { lockID } as any)).toEqual(unlocked);
+  });
+
+  it("reports the holders and the mode of the lock", () => {
+    expect(lockState(lockID, { lockID, writer: "2", readers: [], expiresAt: future })).toEqual({
+      lockID,
+      writer: "2",
+      readers: [],
+      expiresAt: future,
+      mode: "write",
+    });
+    expect(lockState(lockID, { lockID, writer: "", readers: ["2", "3"] })).toMatchObject({
+      writer: null,
+      readers: ["2", "3"],
+      mode: "read",
+    });
+  });
+
+  it("leaves out holders whose leases have run out", () => {
+    const mongoLock = {
+      lockID,
+      writer: "",
+      readers: ["2", "3"],
+      readerLeases: [
+        { clientID: "2", expiresAt: past },
+        { clientID: "3", expiresAt: future },
+      ],
+      expiresAt: future,
+    };
+    expect(lockState(lockID, mongoLock)).toMatchObject({ readers: ["3"], mode: "read" });
+    expect(lockState(lockID, { lockID, writer: "2", readers: [], expiresAt: past })).toMatchObject({
+      writer: null,
+      mode: "unlocked",
+    });
+  });
+
+  it("looks up the state of the lock", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOne = jest
+      .fn()
+      .mockReturnValue(Promise.resolve({ lockID, writer: "", readers: [clientID] }));
+    const lock = new RWMutex(mockCollection, lockID, clientID);
+    expect(await lock.getState()).toEqual({
+      lockID,
+      writer: null,
+      readers: [clientID],
+      expiresAt: null,
+      mode: "read",
+    });
+    expect(mockCollection.findOne).toHaveBeenCalledWith({ lockID });
+    expect(await lock.isHeldBy()).toBe(true);
+    expect(await lock.isHeldBy(clientID, "read")).toBe(true);
+    expect(await lock.isHeldBy(clientID, "write")).toBe(false);
+    expect(await lock.isHeldBy("2")).toBe(false);
+  });
+
+  it("lists the locks in a collection", async () => {
+    const find = jest.fn().mockReturnValue({
+      toArray: () =>
+        Promise.resolve([
+          { lockID: "a", writer: "1", readers: [] },
+          { lockID: "b", writer: "", readers: ["2"] },
+        ]),
+    });
+    const locks = await listLocks({ find }, { lockID: { $in: ["a", "b"] } });
+    expect(find).toHaveBeenCalledWith({ lockID: { $in: ["a", "b"] } });
+    expect(locks).toEqual([
+      { lockID: "a", writer: "1", readers: [], expiresAt: null, mode: "write" },
+      { lockID: "b", writer: null, readers: ["2"], expiresAt: null, mode: "read" },
+    ]);
+  });
+});
+
+describe("events", () => {
+  const lockInUse = () => {
+    const err = new MongoError("E11000 duplicate key error collection");
+    err.code = 11000;
+    return Promise.reject(err);
+  };
+
+  it("reports failed attempts, then acquiring and releasing the write lock", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOneAndUpdate = jest
+      .fn()
+      .mockImplementationOnce(lockInUse)
+      .mockReturnValue(Promise.resolve({ fencingEpoch: 0, fencingCounter: 1 }));
+    const onEvent = jest.fn();
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 5,
+      expiresAt: null,
+      onEvent,
+    });
+    await lock.lock();
+    await lock.unlock();
+    expect(onEvent.mock.calls.map(([event]) => event)).toEqual([
+      { type: "attemptFailed", lockID, clientID, mode: "write", attempt: 1 },
+      {
+        type: "acquired",
+        lockID,
+        clientID,
+        mode: "write",
+        waitMs: expect.any(Number),
+        attempts: 2,
+      },
+      { type: "released", lockID, clientID, mode: "write", heldMs: expect.any(Number) },
+    ]);
+    expect(onEvent.mock.calls[1][0].waitMs).toBeGreaterThanOrEqual(5);
+  });
+
+  it("reports acquiring and releasing a read lock", async () => {
+    const mockCollection = new MockCollection();
+    const onEvent = jest.fn();
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 5,
+      expiresAt: null,
+      onEvent,
+    });
+    expect(await lock.tryRLock()).toBe(true);
+    await lock.rUnlock();
+    expect(onEvent.mock.calls.map(([event]) => event)).toEqual([
+      { type: "acquired", lockID, clientID, mode: "read", waitMs: expect.any(Number), attempts: 1 },
+      { type: "released", lockID, clientID, mode: "read", heldMs: expect.any(Number) },
+    ]);
+  });
+
+  it("does not know how long a lock acquired by another instance was held", async () => {
+    const mockCollection = new MockCollection();
+    const onEvent = jest.fn();
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 5,
+      expiresAt: null,
+      onEvent,
+    });
+    await lock.unlock();
+    expect(onEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "released", heldMs: null }),
+    );
+  });
+
+  it("does not report releasing one of several holds with counted reentrancy", async () => {
+    const mockCollection = new MockCollection();
+    const onEvent = jest.fn();
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 5,
+      expiresAt: null,
+      reentrancy: "count",
+      onEvent,
+    });
+    await lock.unlock();
+    expect(onEvent).not.toHaveBeenCalled();
+  });
+
+  it("reports overriding the writer, and failed override attempts", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOne = jest
+      .fn()
+      .mockReturnValue(Promise.resolve({ lockID, writer: "2", readers: [] }));
+    mockCollection.findOneAndUpdate = jest
+      .fn()
+      .mockImplementationOnce(lockInUse)
+      .mockReturnValue(Promise.resolve({ fencingEpoch: 0, fencingCounter: 2 }));
+    const onEvent = jest.fn();
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 5,
+      expiresAt: null,
+      onEvent,
+    });
+    expect(await lock.conditionalOverrideLockWriter(() => Promise.resolve(true))).toBe(true);
+    expect(onEvent.mock.calls.map(([event]) => event)).toEqual([
+      { type: "attemptFailed", lockID, clientID, mode: "override", attempt: 1 },
+      { type: "overridden", lockID, clientID, oldWriter: "2" },
+    ]);
+  });
+
+  it("reports clearing holders whose leases ran out", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOne = jest.fn().mockReturnValue(
+      Promise.resolve({
+        lockID,
+        writer: "",
+        readers: ["2", "3"],
+        readerLeases: [
+          { clientID: "2", expiresAt: new Date(Date.now() - 1000) },
+          { clientID: "3", expiresAt: new Date(Date.now() + 60000) },
+        ],
+      }),
+    );
+    mockCollection.findOneAndUpdate = jest
+      .fn()
+      .mockImplementationOnce(lockInUse)
+      .mockReturnValue(Promise.resolve({ fencingEpoch: 0, fencingCounter: 1 }));
+    const onEvent = jest.fn();
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 5,
+      expiresAt: null,
+      onEvent,
+    });
+    await lock.lock({ timeoutMs: 1000 });
+    expect(onEvent).toHaveBeenCalledWith({
+      type: "expired",
+      lockID,
+      clientID,
+      writer: null,
+      readers: ["2"],
+    });
+  });
+
+  it("reports a heartbeat finding that the lock was lost", async () => {
+    const mockCollection = new MockCollection();
+    const onEvent = jest.fn();
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 5,
+      expiresAt: null,
+      heartbeat: { leaseTime: 1000, interval: 5 },
+      onEvent,
+    });
+    await lock.rLock();
+    mockCollection.updateOne = jest.fn(() => Promise.resolve({ matchedCount: 0 }));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    lock._stopHeartbeat();
+    expect(onEvent).toHaveBeenCalledWith({
+      type: "expired",
+      lockID,
+      clientID,
+      writer: null,
+      readers: [clientID],
+    });
+    expect(onEvent).toHaveBeenLastCalledWith({
+      type: "failed",
+      lockID,
+      clientID,
+      mode: "read",
+      error: expect.any(LockNotHeldError),
+    });
+  });
+
+  it("reports failures, but not a conflict that is retried", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOne = jest
+      .fn()
+      .mockReturnValue(Promise.resolve({ lockID, writer: "2", readers: [] }));
+    mockCollection.findOneAndUpdate = jest.fn(lockInUse);
+    const onEvent = jest.fn();
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 5,
+      expiresAt: null,
+      onEvent,
+    });
+    await expect(
+      lock.conditionalOverrideLockWriter(() => Promise.resolve(true), true, 20),
+    ).rejects.toThrow(LockTimeoutError);
+    const types = onEvent.mock.calls.map(([event]) => event.type);
+    expect(types.filter((type) => type === "failed")).toHaveLength(1);
+    expect(onEvent).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        type: "failed",
+        mode: "override",
+        error: expect.any(LockTimeoutError),
+      }),
+    );
+
+    mockCollection.deleteOne = jest.fn(() => Promise.reject(new Error("connection lost")));
+    await expect(lock.rUnlock()).rejects.toThrow(LockReleaseError);
+    expect(onEvent).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        type: "failed",
+        mode: "read",
+        error: expect.any(LockReleaseError),
+      }),
+    );
+  });
+
+  it("reports downgrading as releasing the write lock and acquiring a read lock", async () => {
+    const mockCollection = new MockCollection();
+    const onEvent = jest.fn();
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 5,
+      expiresAt: null,
+      onEvent,
+    });
+    await lock.lock();
+    await lock.downgrade();
+    expect(onEvent.mock.calls.map(([event]) => [event.type, event.mode])).toEqual([
+      ["acquired", "write"],
+      ["released", "write"],
+      ["acquired", "read"],
+    ]);
+  });
+
+  it("ignores errors thrown by the handler", async () => {
+    const mockCollection = new MockCollection();
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 5,
+      expiresAt: null,
+      onEvent: () => {
+        throw new Error("logging failed");
+      },
+    });
+    await lock.lock();
+    await lock.unlock();
+  });
+});
+
+describe("holder metadata", () => {
+  const options = {
+    sleepTime: 5,
+    expiresAt: null,
+    holderMetadata: { labels: { job: "nightly-export" } },
+  };
+  const metadata = {
+    clientID,
+    hostname: hostname(),
+    pid: process.pid,
+    acquiredAt: expect.any(Date),
+    labels: { job: "nightly-export" },
+  };
+
+  it("records the writer's metadata when acquiring the write lock", async () => {
+    const mockCollection = new MockCollection();
+    const lock = new RWMutex(mockCollection, lockID, clientID, options);
+    await lock.lock();
+    expect(mockCollection.findOneAndUpdate.mock.calls[0][1].$set).toEqual({
+      writer: clientID,
+      readers: [],
+      writerMetadata: metadata,
+    });
+  });
+
+  it("records a reader's metadata when acquiring a read lock", async () => {
+    const mockCollection = new MockCollection();
+    const lock = new RWMutex(mockCollection, lockID, clientID, options);
+    await lock.rLock();
+    expect(mockCollection.updateOne.mock.calls[0][1].$push).toEqual({ readerMetadata: metadata });
+  });
+
+  it("removes the metadata on release", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.deleteOne = jest.fn().mockReturnValue(Promise.resolve({ deletedCount: 0 }));
+    const lock = new RWMutex(mockCollection, lockID, clientID, options);
+    await lock.unlock();
+    expect(mockCollection.updateOne).toHaveBeenLastCalledWith(
+      { lockID, writer: clientID },
+      { $set: { writer: "" }, $unset: { writerMetadata: "" } },
+    );
+    await lock.rUnlock();
+    expect(mockCollection.updateOne).toHaveBeenLastCalledWith(
+      { lockID, readers: clientID },
+      { $pull: { readers: clientID, readerMetadata: { clientID } } },
+    );
+  });
+
+  it("moves the metadata to the readers on downgrade", async () => {
+    const mockCollection = new MockCollection();
+    const lock = new RWMutex(mockCollection, lockID, clientID, options);
+    await lock.downgrade();
+    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+      { lockID, writer: clientID },
+      {
+        $set: { writer: "" },
+        $addToSet: { readers: clientID },
+        $push: { readerMetadata: metadata },
+        $unset: { writerMetadata: "" },
+      },
+    );
+  });
+
+  it("keeps the metadata of each reader, whatever its clientID", async () => {
+    const collection = new MemoryLockCollection({ ttlIndex: false });
+    const reader1 = new RWMutex(collection, lockID, "a.b", options);
+    const reader2 = new RWMutex(collection, lockID, "$c", options);
+    await reader1.rLock();
+    await reader2.rLock();
+    await reader1.rUnlock();
+    expect((await collection.findOne({ lockID })).readerMetadata).toEqual([
+      { ...metadata, clientID: "$c" },
+    ]);
+    await reader2.rUnlock();
+  });
+});
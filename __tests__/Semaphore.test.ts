@@ -0,0 +1,230 @@
+import { Semaphore } from "../lib/Semaphore";
+import {
+  LockAcquireError,
+  LockNotHeldError,
+  LockReentryError,
+  LockRenewError,
+  LockTimeoutError,
+} from "../lib/errors";
+import MockCollection from "../__mocks__/MockCollection";
+import { MongoError } from "mongodb";
+
+const lockID = "semaphore";
+const clientID = "1";
+
+const noPermitsFree = () => {
+  const err = new MongoError("E11000 duplicate key error collection");
+  err.code = 11000;
+  return Promise.reject(err);
+};
+
+describe("Semaphore", () => {
+  describe("acquire", () => {
+    it("adds the client to the holders if enough permits are free", async () => {
+      const mockCollection = new MockCollection();
+      const semaphore = new Semaphore(mockCollection, lockID, clientID, 3);
+      await semaphore.acquire(2);
+      expect(mockCollection.updateOne).toHaveBeenCalledWith(
+        { lockID, used: { $lte: 1 }, "holders.clientID": { $ne: clientID } },
+        {
+          $inc: { used: 2 },
+          $push: { holders: { clientID, permits: 2, expiresAt: null } },
+          $setOnInsert: { writer: "", readers: [] },
+        },
+        { upsert: true },
+      );
+    });
+
+    it("retries until enough permits are free", async () => {
+      const mockCollection = new MockCollection();
+      mockCollection.updateOne = jest
+        .fn()
+        .mockImplementationOnce(noPermitsFree)
+        .mockImplementationOnce(noPermitsFree)
+        .mockReturnValue(Promise.resolve({ matchedCount: 1 }));
+      const semaphore = new Semaphore(mockCollection, lockID, clientID, 1, {
+        sleepTime: 5,
+        expiresAt: null,
+      });
+      await semaphore.acquire();
+      expect(mockCollection.updateOne).toHaveBeenCalledTimes(3);
+    });
+
+    it("extends the expiry of the document to the client's lease", async () => {
+      const mockCollection = new MockCollection();
+      const expiresAt = new Date(Date.now() + 60000);
+      const semaphore = new Semaphore(mockCollection, lockID, clientID, 1, {
+        sleepTime: 5,
+        expiresAt,
+      });
+      await semaphore.acquire();
+      expect(mockCollection.updateOne.mock.calls[0][1]).toMatchObject({
+        $push: { holders: { clientID, permits: 1, expiresAt } },
+        $max: { expiresAt },
+      });
+    });
+
+    it("clears holders whose leases have run out", async () => {
+      const mockCollection = new MockCollection();
+      const expired = new Date(Date.now() - 1000);
+      mockCollection.findOne = jest.fn(() =>
+        Promise.resolve({
+          lockID,
+          used: 1,
+          holders: [{ clientID: "2", permits: 1, expiresAt: expired }],
+        }),
+      );
+      mockCollection.updateOne = jest
+        .fn()
+        .mockImplementationOnce(noPermitsFree)
+        .mockReturnValue(Promise.resolve({ matchedCount: 1 }));
+      const semaphore = new Semaphore(mockCollection, lockID, clientID, 1, {
+        sleepTime: 5,
+        expiresAt: null,
+      });
+      await semaphore.acquire();
+      expect(mockCollection.updateOne.mock.calls[1]).toEqual([
+        {
+          lockID,
+          holders: {
+            $elemMatch: { clientID: "2", permits: 1, expiresAt: { $lte: expect.any(Date) } },
+          },
+        },
+        { $pull: { holders: { clientID: "2" } }, $inc: { used: -1 } },
+      ]);
+    });
+
+    it("rejects when asked for more permits than the limit", async () => {
+      const mockCollection = new MockCollection();
+      const semaphore = new Semaphore(mockCollection, lockID, clientID, 2);
+      await expect(semaphore.acquire(3)).rejects.toThrow(
+        `cannot acquire 3 permits of semaphore ${lockID} with limit 2`,
+      );
+      expect(mockCollection.updateOne).not.toHaveBeenCalled();
+    });
+
+    it("rejects with a LockReentryError when the instance already holds permits", async () => {
+      const mockCollection = new MockCollection();
+      const semaphore = new Semaphore(mockCollection, lockID, clientID, 2);
+      await semaphore.acquire();
+      await expect(semaphore.acquire()).rejects.toThrow(LockReentryError);
+    });
+
+    it("rejects with a LockAcquireError when mongo fails", async () => {
+      const mockCollection = new MockCollection();
+      mockCollection.updateOne = jest.fn(() => Promise.reject(new Error("connection lost")));
+      const semaphore = new Semaphore(mockCollection, lockID, clientID, 2);
+      const err = await semaphore.acquire().catch((err) => err);
+      expect(err).toBeInstanceOf(LockAcquireError);
+      expect(err.message).toBe(`error acquiring lock ${lockID}: connection lost`);
+    });
+
+    it("rejects with a LockTimeoutError when no permits free up in time", async () => {
+      const mockCollection = new MockCollection();
+      mockCollection.updateOne = jest.fn(noPermitsFree);
+      const semaphore = new Semaphore(mockCollection, lockID, clientID, 1, {
+        sleepTime: 5,
+        expiresAt: null,
+      });
+      await expect(semaphore.acquire(1, { timeoutMs: 20 })).rejects.toThrow(LockTimeoutError);
+    });
+  });
+
+  describe("tryAcquire", () => {
+    it("resolves to whether the permits were acquired without retrying", async () => {
+      const mockCollection = new MockCollection();
+      mockCollection.updateOne = jest.fn(noPermitsFree);
+      const semaphore = new Semaphore(mockCollection, lockID, clientID, 1);
+      expect(await semaphore.tryAcquire()).toBe(false);
+      expect(mockCollection.updateOne).toHaveBeenCalledTimes(1);
+
+      mockCollection.updateOne = jest.fn(() => Promise.resolve({ matchedCount: 1 }));
+      expect(await semaphore.tryAcquire()).toBe(true);
+    });
+  });
+
+  describe("release", () => {
+    it("deletes the document if the client is the only holder", async () => {
+      const mockCollection = new MockCollection();
+      const semaphore = new Semaphore(mockCollection, lockID, clientID, 2);
+      await semaphore.acquire();
+      await semaphore.release();
+      expect(mockCollection.deleteOne).toHaveBeenCalledWith({
+        lockID,
+        holders: { $size: 1 },
+        "holders.clientID": clientID,
+      });
+      expect(mockCollection.updateOne).toHaveBeenCalledTimes(1);
+    });
+
+    it("removes the client from the holders if there are others", async () => {
+      const mockCollection = new MockCollection();
+      mockCollection.deleteOne = jest.fn(() => Promise.resolve({ deletedCount: 0 }));
+      const semaphore = new Semaphore(mockCollection, lockID, clientID, 3);
+      await semaphore.acquire(2);
+      await semaphore.release();
+      expect(mockCollection.updateOne).toHaveBeenLastCalledWith(
+        { lockID, holders: { $elemMatch: { clientID, permits: 2 } } },
+        { $pull: { holders: { clientID } }, $inc: { used: -2 } },
+      );
+    });
+
+    it("looks up the permits held when they were acquired by another instance", async () => {
+      const mockCollection = new MockCollection();
+      mockCollection.deleteOne = jest.fn(() => Promise.resolve({ deletedCount: 0 }));
+      mockCollection.findOne = jest.fn(() =>
+        Promise.resolve({ lockID, used: 3, holders: [{ clientID, permits: 3, expiresAt: null }] }),
+      );
+      const semaphore = new Semaphore(mockCollection, lockID, clientID, 3);
+      await semaphore.release();
+      expect(mockCollection.updateOne).toHaveBeenCalledWith(
+        { lockID, holders: { $elemMatch: { clientID, permits: 3 } } },
+        { $pull: { holders: { clientID } }, $inc: { used: -3 } },
+      );
+    });
+
+    it("rejects with a LockNotHeldError if the client holds no permits", async () => {
+      const mockCollection = new MockCollection();
+      mockCollection.deleteOne = jest.fn(() => Promise.resolve({ deletedCount: 0 }));
+      mockCollection.updateOne = jest.fn(() => Promise.resolve({ matchedCount: 0 }));
+      const semaphore = new Semaphore(mockCollection, lockID, clientID, 3);
+      await expect(semaphore.release()).rejects.toThrow(LockNotHeldError);
+    });
+  });
+
+  describe("heartbeat", () => {
+    it("renews the client's lease while it holds permits", async () => {
+      const mockCollection = new MockCollection();
+      const semaphore = new Semaphore(mockCollection, lockID, clientID, 2, {
+        sleepTime: 5,
+        expiresAt: null,
+        heartbeat: { leaseTime: 1000, interval: 5 },
+      });
+      await semaphore.acquire();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      await semaphore.release();
+      expect(mockCollection.updateOne.mock.calls[1]).toEqual([
+        { lockID, "holders.clientID": clientID },
+        {
+          $set: { "holders.$.expiresAt": expect.any(Date) },
+          $max: { expiresAt: expect.any(Date) },
+        },
+      ]);
+    });
+
+    it("reports an error when renewing fails", async () => {
+      const mockCollection = new MockCollection();
+      const onError = jest.fn();
+      const semaphore = new Semaphore(mockCollection, lockID, clientID, 2, {
+        sleepTime: 5,
+        expiresAt: null,
+        heartbeat: { leaseTime: 1000, interval: 5, onError },
+      });
+      await semaphore.acquire();
+      mockCollection.updateOne = jest.fn(() => Promise.reject(new Error("connection lost")));
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      await semaphore.release();
+      expect(onError.mock.calls[0][0]).toBeInstanceOf(LockRenewError);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { evictReader, evictWriter, forceUnlock } from "../lib/admin";
+import { LockReleaseError } from "../lib/errors";
+import MockCollection from "../__mocks__/MockCollection";
+
+const lockID = "lockID";
+const lastEviction = (clientID: string | null, mode: string | null, reason: string | null) => ({
+  clientID,
+  mode,
+  reason,
+  at: expect.any(Date),
+});
+
+describe("forceUnlock", () => {
+  it("clears every holder off the lock and records why", async () => {
+    const mockCollection = new MockCollection();
+    const reason = "stuck since the outage";
+    expect(await forceUnlock(mockCollection, lockID, { reason })).toBe(true);
+    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+      { lockID },
+      {
+        $set: { writer: "", readers: [], lastEviction: lastEviction(null, null, reason) },
+        $unset: {
+          writerLease: "",
+          readerLeases: "",
+          writerCount: "",
+          readerCounts: "",
+          writerMetadata: "",
+          readerMetadata: "",
+          expiresAt: "",
+        },
+      },
+    );
+  });
+
+  it("resolves to false if there is no such lock", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.updateOne = jest.fn().mockReturnValue(Promise.resolve({ matchedCount: 0 }));
+    expect(await forceUnlock(mockCollection, lockID)).toBe(false);
+  });
+
+  it("wraps errors in a LockReleaseError", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.updateOne = jest.fn().mockRejectedValue(new Error("connection interrupted"));
+    const err = await forceUnlock(mockCollection, lockID).catch((err) => err);
+    expect(err).toBeInstanceOf(LockReleaseError);
+    expect(err).toMatchObject({ lockID, clientID: null });
+  });
+});
+
+describe("evictReader", () => {
+  it("removes the reader along with its lease and count", async () => {
+    const mockCollection = new MockCollection();
+    expect(await evictReader(mockCollection, lockID, "2", { reason: "host is gone" })).toBe(true);
+    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+      { lockID, readers: "2" },
+      {
+        $pull: {
+          readers: "2",
+          readerLeases: { clientID: "2" },
+          readerCounts: { clientID: "2" },
+          readerMetadata: { clientID: "2" },
+        },
+        $set: { lastEviction: lastEviction("2", "read", "host is gone") },
+      },
+    );
+  });
+
+  it("resolves to false if the client is not a reader", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.updateOne = jest.fn().mockReturnValue(Promise.resolve({ matchedCount: 0 }));
+    expect(await evictReader(mockCollection, lockID, "2")).toBe(false);
+  });
+});
+
+describe("evictWriter", () => {
+  it("removes the writer only if it is still the given client", async () => {
+    const mockCollection = new MockCollection();
+    expect(await evictWriter(mockCollection, lockID, "2")).toBe(true);
+    expect(mockCollection.updateOne).toHaveBeenCalledWith(
+      { lockID, writer: "2" },
+      {
+        $set: { writer: "", lastEviction: lastEviction("2", "write", null) },
+        $unset: { writerLease: "", writerCount: "", writerMetadata: "" },
+      },
+    );
+  });
+});
@@ -1,5 +1,11 @@
 import { Collection as MongoCollection, MongoClient } from "mongodb";
-import { RWMutex, MongoLock } from "../lib/RWMutex";
+import { RWMutex, MongoLock, listLocks } from "../lib/RWMutex";
+import { ensureLockCollection, verifyLockCollection } from "../lib/setup";
+import { evictReader, forceUnlock } from "../lib/admin";
+import { MultiLock } from "../lib/MultiLock";
+import { Semaphore } from "../lib/Semaphore";
+import { LockClient } from "../lib/LockClient";
+import { LockAbortedError } from "../lib/errors";
 const MONGO_URL = "mongodb://127.0.0.1:27017/test";
 const lockID = "lockID";
 const clientID = "1";
@@ -22,30 +28,7 @@ describe("Integration Test: RWMutex", () => {
     mongoClient = await MongoClient.connect(MONGO_URL);
     const db = mongoClient.db("test");
     await db.dropDatabase();
-    collection = await db.createCollection("districtlocks", {
-      validator: {
-        $jsonSchema: {
-          bsonType: "object",
-          required: ["lockID", "readers", "writer"],
-          properties: {
-            lockID: {
-              bsonType: "string",
-            },
-            readers: {
-              bsonType: "array",
-            },
-            writer: {
-              bsonType: "string",
-            },
-            expiresAt: {
-              bsonType: "date",
-            },
-          },
-        },
-      },
-    });
-    await collection.createIndex("lockID", { unique: true });
-    await collection.createIndex("expiresAt", { expireAfterSeconds: 0 });
+    collection = await ensureLockCollection(db, "districtlocks", { validator: true });
   });
 
   // Must close the connection or jest will hang
@@ -54,6 +37,26 @@ describe("Integration Test: RWMutex", () => {
   // Reset the collection before each test
   beforeEach(() => collection.deleteMany({}));
 
+  describe("ensureLockCollection()", () => {
+    it("leaves a set up collection as it is", async () => {
+      const db = mongoClient.db("test");
+      expect(await verifyLockCollection(db, "districtlocks", { validator: true })).toEqual([]);
+      await ensureLockCollection(db, "districtlocks", { validator: true, verify: true });
+      await ensureLockCollection(db, "districtlocks", { validator: true });
+      return expect(await verifyLockCollection(db, "districtlocks", { validator: true })).toEqual(
+        [],
+      );
+    });
+
+    it("reports what is missing without changing anything in verify mode", async () => {
+      const db = mongoClient.db("test");
+      await expect(ensureLockCollection(db, "newlocks", { verify: true })).rejects.toThrow(
+        "collection newlocks does not exist",
+      );
+      return expect(await db.listCollections({ name: "newlocks" }).toArray()).toEqual([]);
+    });
+  });
+
   describe(".lock()", () => {
     it("inserts a lock if none exists", async () => {
       const lock = new RWMutex(collection, lockID, clientID, { sleepTime: 100, expiresAt: null });
@@ -255,6 +258,313 @@ describe("Integration Test: RWMutex", () => {
     }, 120000);
   });
 
+  describe("counted reentrancy", () => {
+    it("only releases the lock once it has been unlocked as many times as it was locked", async () => {
+      const options = { sleepTime: 100, expiresAt: null, reentrancy: "count" as const };
+      const lock = new RWMutex(collection, lockID, clientID, options);
+      const sameClient = new RWMutex(collection, lockID, clientID, options);
+      await lock.lock();
+      await sameClient.lock();
+      let lockObject = await collection.findOne({ lockID });
+      expect(lockObject).toMatchObject({ lockID, writer: clientID, writerCount: 2 });
+
+      await sameClient.unlock();
+      lockObject = await collection.findOne({ lockID });
+      expect(lockObject).toMatchObject({ lockID, writer: clientID, writerCount: 1 });
+
+      await lock.unlock();
+      lockObject = await collection.findOne({ lockID });
+      return expect(lockObject).toBeNull();
+    });
+  });
+
+  describe("fair queueing", () => {
+    it("keeps new readers behind a waiting writer", async () => {
+      const options = { sleepTime: 50, expiresAt: null, fairQueue: { ticketTime: 5000 } };
+      const reader = new RWMutex(collection, lockID, clientID, options);
+      const writer = new RWMutex(collection, lockID, "2", options);
+      const lateReader = new RWMutex(collection, lockID, "3", options);
+      await reader.rLock();
+      const writerLocked = writer.lock();
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      let lockObject = await collection.findOne({ lockID });
+      expect(lockObject.queue).toMatchObject([{ clientID: "2", mode: "write", ticket: 1 }]);
+      expect(await lateReader.tryRLock()).toBe(false);
+
+      await reader.rUnlock();
+      await writerLocked;
+      lockObject = await collection.findOne({ lockID });
+      expect(lockObject).toMatchObject({ lockID, writer: "2", readers: [], queue: [] });
+      await writer.unlock();
+      return expect(await lateReader.tryRLock()).toBe(true);
+    });
+  });
+
+  describe("upgrade and downgrade", () => {
+    it("upgrades once the other readers are gone, keeping new readers out meanwhile", async () => {
+      const options = { sleepTime: 50, expiresAt: null };
+      const lock = new RWMutex(collection, lockID, clientID, options);
+      const otherReader = new RWMutex(collection, lockID, "2", options);
+      const lateReader = new RWMutex(collection, lockID, "3", options);
+      await lock.rLock();
+      await otherReader.rLock();
+      expect(await lock.upgrade()).toBe(false);
+
+      const upgraded = lock.upgrade({ wait: true });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(await lateReader.tryRLock()).toBe(false);
+      await otherReader.rUnlock();
+      expect(await upgraded).toBe(true);
+      let lockObject = await collection.findOne({ lockID });
+      expect(lockObject).toMatchObject({ lockID, writer: clientID, readers: [] });
+
+      await lock.downgrade();
+      lockObject = await collection.findOne({ lockID });
+      expect(lockObject).toMatchObject({ lockID, writer: "", readers: [clientID] });
+      return expect(await lateReader.tryRLock()).toBe(true);
+    });
+  });
+
+  describe("inspection", () => {
+    it("reports who holds each lock", async () => {
+      const writer = new RWMutex(collection, "lockA", clientID, {
+        sleepTime: 100,
+        expiresAt: null,
+      });
+      const reader = new RWMutex(collection, "lockB", "2", { sleepTime: 100, expiresAt: null });
+      await writer.lock();
+      await reader.rLock();
+      expect(await writer.getState()).toMatchObject({
+        writer: clientID,
+        readers: [],
+        mode: "write",
+      });
+      expect(await reader.isHeldBy("2", "read")).toBe(true);
+      expect(await reader.isHeldBy(clientID)).toBe(false);
+
+      const locks = await listLocks(collection);
+      expect(locks.map((lock) => [lock.lockID, lock.mode]).sort()).toEqual([
+        ["lockA", "write"],
+        ["lockB", "read"],
+      ]);
+      await reader.rUnlock();
+      return expect(await reader.getState()).toMatchObject({ mode: "unlocked" });
+    });
+  });
+
+  describe("administration", () => {
+    it("evicts a dead reader and force-releases a stuck writer", async () => {
+      const options = { sleepTime: 100, expiresAt: null };
+      await new RWMutex(collection, lockID, "2", options).rLock();
+      await new RWMutex(collection, lockID, "3", options).rLock();
+      expect(await evictReader(collection, lockID, "2", { reason: "host is gone" })).toBe(true);
+      let lockObject = await collection.findOne({ lockID });
+      expect(lockObject).toMatchObject({
+        readers: ["3"],
+        lastEviction: { clientID: "2", mode: "read", reason: "host is gone" },
+      });
+
+      expect(await forceUnlock(collection, lockID)).toBe(true);
+      lockObject = await collection.findOne({ lockID });
+      expect(lockObject).toMatchObject({
+        writer: "",
+        readers: [],
+        lastEviction: { clientID: null },
+      });
+      const lock = new RWMutex(collection, lockID, clientID, options);
+      return expect(await lock.tryLock()).toBe(true);
+    });
+  });
+
+  describe("MultiLock", () => {
+    it("acquires all of the locks or none of them", async () => {
+      const options = { sleepTime: 20, expiresAt: null };
+      const blocker = new RWMutex(collection, "lockB", "2", options);
+      await blocker.lock();
+      const multiLock = new MultiLock(
+        collection,
+        [
+          { lockID: "lockA", mode: "write" },
+          { lockID: "lockB", mode: "read" },
+        ],
+        clientID,
+        options,
+      );
+      await expect(multiLock.lock({ timeoutMs: 100 })).rejects.toThrow(
+        "timed out acquiring lock lockB",
+      );
+      expect(await collection.findOne({ lockID: "lockA" })).toBeNull();
+
+      await blocker.unlock();
+      await multiLock.lock({ timeoutMs: 100 });
+      expect(await collection.findOne({ lockID: "lockA" })).toMatchObject({ writer: clientID });
+      expect(await collection.findOne({ lockID: "lockB" })).toMatchObject({ readers: [clientID] });
+      await multiLock.unlock();
+      return expect(await collection.countDocuments({})).toBe(0);
+    });
+
+    it("gives up on acquiring locks and releases the ones it holds when shutting down", async () => {
+      await new RWMutex(collection, "lockB", "2", { sleepTime: 20, expiresAt: null }).lock();
+      const client = new LockClient(collection, { lockOptions: { sleepTime: 20 } });
+      await client.rwMutex("lockA").lock();
+      const waiting = client.rwMutex("lockB").lock();
+      await client.shutdown({ timeoutMs: 1000 });
+      await expect(waiting).rejects.toThrow(LockAbortedError);
+      return expect(await collection.findOne({ lockID: "lockA" })).toBeNull();
+    });
+  });
+
+  describe("Semaphore", () => {
+    it("lets at most limit permits be held at once", async () => {
+      const options = { sleepTime: 20, expiresAt: null };
+      const semaphore1 = new Semaphore(collection, lockID, "1", 3, options);
+      const semaphore2 = new Semaphore(collection, lockID, "2", 3, options);
+      const semaphore3 = new Semaphore(collection, lockID, "3", 3, options);
+      await semaphore1.acquire(2);
+      await semaphore2.acquire();
+      expect(await semaphore3.tryAcquire()).toBe(false);
+      expect(await collection.findOne({ lockID })).toMatchObject({ used: 3 });
+
+      await semaphore1.release();
+      await semaphore3.acquire(2, { timeoutMs: 100 });
+      await semaphore2.release();
+      await semaphore3.release();
+      return expect(await collection.countDocuments({})).toBe(0);
+    });
+
+    it("frees the permits of holders whose leases ran out", async () => {
+      const expired = new Semaphore(collection, lockID, "1", 1, {
+        sleepTime: 20,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+      await expired.acquire();
+      const semaphore = new Semaphore(collection, lockID, "2", 1, {
+        sleepTime: 20,
+        expiresAt: null,
+      });
+      await semaphore.acquire(1, { timeoutMs: 100 });
+      return expect(await collection.findOne({ lockID })).toMatchObject({
+        used: 1,
+        holders: [{ clientID: "2", permits: 1 }],
+      });
+    });
+  });
+
+  describe("holder metadata", () => {
+    it("records who holds the lock until it is released", async () => {
+      const options = {
+        sleepTime: 20,
+        expiresAt: null,
+        holderMetadata: { labels: { job: "test" } },
+      };
+      const writer = new RWMutex(collection, lockID, clientID, options);
+      const reader = new RWMutex(collection, lockID, "2", options);
+      await writer.lock();
+      expect(await collection.findOne({ lockID })).toMatchObject({
+        writerMetadata: { clientID, pid: process.pid, labels: { job: "test" } },
+      });
+
+      await writer.downgrade();
+      await reader.rLock();
+      await writer.rUnlock();
+      const mongoLock = await collection.findOne({ lockID });
+      expect(mongoLock.writerMetadata).toBeUndefined();
+      expect(mongoLock.readerMetadata.map((metadata) => metadata.clientID)).toEqual(["2"]);
+      return reader.rUnlock();
+    });
+  });
+
+  describe("LockClient", () => {
+    it("releases all of the locks its clients hold", async () => {
+      const client = new LockClient(collection, { lockOptions: { sleepTime: 20 } });
+      await client.rwMutex("lockA").lock();
+      await client.rwMutex("lockB").rLock();
+      expect(await collection.findOne({ lockID: "lockA" })).toMatchObject({
+        writer: client.clientID,
+      });
+      await client.releaseAll();
+      expect(client.heldLocks()).toEqual([]);
+      return expect(await collection.countDocuments({})).toBe(0);
+    });
+  });
+
+  describe("fencing tokens", () => {
+    it("increase with every acquisition, even after the lock document is deleted", async () => {
+      const lock = new RWMutex(collection, lockID, clientID, { sleepTime: 100, expiresAt: null });
+      const lock2 = new RWMutex(collection, lockID, "2", { sleepTime: 100, expiresAt: null });
+      const token1 = await lock.lock();
+      const token2 = await lock.lock();
+      expect(token2).toBeGreaterThan(token1);
+
+      const token3 = await lock2.tryOverrideLockWriter(clientID);
+      expect(token3).toBeGreaterThan(token2);
+      await lock2.unlock();
+      expect(await collection.findOne({ lockID })).toBeNull();
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      const token4 = await lock.lock();
+      return expect(token4).toBeGreaterThan(token3);
+    });
+  });
+
+  describe("change stream wait strategy", () => {
+    // needs a server that supports change streams, i.e. a replica set
+    it("wakes up as soon as the lock is released, even after it was recreated", async () => {
+      const lock = new RWMutex(collection, lockID, clientID, { sleepTime: 100, expiresAt: null });
+      await lock.lock();
+
+      const lock2 = new RWMutex(collection, lockID, "2", {
+        sleepTime: 5000,
+        expiresAt: null,
+        waitStrategy: "changeStream",
+      });
+      const acquired = lock2.lock();
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      // the lock document gets a new _id while the lock is still held
+      const mongoLock = await collection.findOne({ lockID });
+      delete mongoLock._id;
+      await collection.deleteOne({ lockID });
+      await collection.insertOne(mongoLock);
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      const startTime = performance.now();
+      await lock.unlock();
+      await acquired;
+      // well under the 5000ms sleepTime it would otherwise have waited
+      expect(performance.now() - startTime).toBeLessThan(1000);
+
+      const lockObject = await collection.findOne({ lockID });
+      return expect(lockObject).toMatchObject({
+        lockID,
+        readers: [],
+        writer: "2",
+      });
+    });
+  });
+
+  describe(".tryLock()", () => {
+    it("acquires the lock only if nobody else holds it", async () => {
+      const lock = new RWMutex(collection, lockID, clientID, { sleepTime: 100, expiresAt: null });
+      const lock2 = new RWMutex(collection, lockID, "2", { sleepTime: 100, expiresAt: null });
+      expect(await lock.tryLock()).toBe(true);
+      expect(await lock2.tryLock()).toBe(false);
+      expect(await lock2.tryRLock()).toBe(false);
+
+      await lock.unlock();
+      expect(await lock2.tryRLock()).toBe(true);
+      expect(await lock.tryLock()).toBe(false);
+
+      const lockObject = await collection.findOne({ lockID });
+      expect(lockObject).not.toBeNull();
+      delete lockObject._id;
+      return expect(lockObject).toMatchObject({
+        lockID,
+        readers: ["2"],
+        writer: "",
+      });
+    });
+  });
+
   describe(".rLock()", () => {
     it("acquires the lock", async () => {
       const lock = new RWMutex(collection, lockID, clientID, { sleepTime: 100, expiresAt: null });
@@ -469,6 +779,35 @@ describe("Integration Test: RWMutex", () => {
       });
 
     }, 120000);    
+
+    it("clears an expired reader without affecting the other readers", async () => {
+      const lock = new RWMutex(collection, lockID, clientID, {
+        sleepTime: 100,
+        expiresAt: new Date(Date.now() + 1000),
+      });
+      await lock.rLock();
+      const lock2 = new RWMutex(collection, lockID, "2", {
+        sleepTime: 100,
+        expiresAt: new Date(Date.now() + 60000),
+      });
+      await lock2.rLock();
+
+      const lock3 = new RWMutex(collection, lockID, "3", { sleepTime: 100, expiresAt: null });
+      const startTime = performance.now();
+      releaseRLockAfterTimeout(lock2, 2000);
+      await lock3.lock();
+      const endTime = performance.now();
+      expect(endTime - startTime).toBeGreaterThanOrEqual(2000);
+
+      const lockObject = await collection.findOne({ lockID });
+      expect(lockObject).not.toBeNull();
+      expect(lockObject.expiresAt).toBeUndefined();
+      return expect(lockObject).toMatchObject({
+        lockID,
+        readers: [],
+        writer: "3",
+      });
+    });
   });
 
   describe(".tryOverrideLockWriter()", () => {
@@ -0,0 +1,109 @@
+import { LockMetrics } from "../lib/metrics";
+import { RWMutex } from "../lib/RWMutex";
+import { LockReleaseError } from "../lib/errors";
+import MockCollection from "../__mocks__/MockCollection";
+
+const clientID = "1";
+
+describe("LockMetrics", () => {
+  it("renders wait and hold time histograms", () => {
+    const metrics = new LockMetrics({ buckets: [1, 0.1] });
+    metrics.onEvent({
+      type: "acquired",
+      lockID: "a",
+      clientID,
+      mode: "write",
+      waitMs: 50,
+      attempts: 1,
+    });
+    metrics.onEvent({
+      type: "acquired",
+      lockID: "a",
+      clientID,
+      mode: "write",
+      waitMs: 500,
+      attempts: 3,
+    });
+    metrics.onEvent({ type: "released", lockID: "a", clientID, mode: "write", heldMs: 2000 });
+    metrics.onEvent({ type: "released", lockID: "a", clientID, mode: "write", heldMs: null });
+    const rendered = metrics.render();
+    expect(rendered).toContain(
+      [
+        "# HELP mongo_lock_wait_seconds Time spent acquiring a lock, including waiting for other clients.",
+        "# TYPE mongo_lock_wait_seconds histogram",
+        'mongo_lock_wait_seconds_bucket{lock_id="a",mode="write",le="0.1"} 1',
+        'mongo_lock_wait_seconds_bucket{lock_id="a",mode="write",le="1"} 2',
+        'mongo_lock_wait_seconds_bucket{lock_id="a",mode="write",le="+Inf"} 2',
+        'mongo_lock_wait_seconds_sum{lock_id="a",mode="write"} 0.55',
+        'mongo_lock_wait_seconds_count{lock_id="a",mode="write"} 2',
+        "# HELP mongo_lock_hold_seconds Time a lock was held, from acquiring it to releasing it.",
+        "# TYPE mongo_lock_hold_seconds histogram",
+        'mongo_lock_hold_seconds_bucket{lock_id="a",mode="write",le="0.1"} 0',
+        'mongo_lock_hold_seconds_bucket{lock_id="a",mode="write",le="1"} 0',
+        'mongo_lock_hold_seconds_bucket{lock_id="a",mode="write",le="+Inf"} 1',
+        'mongo_lock_hold_seconds_sum{lock_id="a",mode="write"} 2',
+        'mongo_lock_hold_seconds_count{lock_id="a",mode="write"} 1',
+      ].join("\n"),
+    );
+    expect(rendered).toContain('mongo_lock_contended_total{lock_id="a",mode="write"} 1\n');
+  });
+
+  it("counts retries, overrides, expired holders and errors", () => {
+    const metrics = new LockMetrics({ prefix: "app_lock" });
+    metrics.onEvent({ type: "attemptFailed", lockID: "a", clientID, mode: "read", attempt: 1 });
+    metrics.onEvent({ type: "attemptFailed", lockID: "a", clientID, mode: "read", attempt: 2 });
+    metrics.onEvent({ type: "overridden", lockID: "a", clientID, oldWriter: "2" });
+    metrics.onEvent({ type: "expired", lockID: "a", clientID, writer: "2", readers: ["3", "4"] });
+    metrics.onEvent({
+      type: "failed",
+      lockID: "a",
+      clientID,
+      mode: "write",
+      error: new LockReleaseError("a", clientID),
+    });
+    const rendered = metrics.render();
+    expect(rendered).toContain('app_lock_retries_total{lock_id="a",mode="read"} 2\n');
+    expect(rendered).toContain('app_lock_overrides_total{lock_id="a"} 1\n');
+    expect(rendered).toContain('app_lock_expired_holders_total{lock_id="a"} 3\n');
+    expect(rendered).toContain(
+      'app_lock_errors_total{lock_id="a",mode="write",error="LockReleaseError"} 1\n',
+    );
+  });
+
+  it("renders only the metric descriptions before any events", () => {
+    const rendered = new LockMetrics().render();
+    expect(rendered.split("\n").filter((line) => line && !line.startsWith("#"))).toEqual([]);
+    expect(rendered).toContain("# TYPE mongo_lock_errors_total counter\n");
+  });
+
+  it("groups lock ids and escapes label values", () => {
+    const metrics = new LockMetrics({ lockIDLabel: (lockID) => lockID.split(":")[0] });
+    metrics.onEvent({ type: "overridden", lockID: "user:1", clientID, oldWriter: "" });
+    metrics.onEvent({ type: "overridden", lockID: "user:2", clientID, oldWriter: "" });
+    metrics.onEvent({ type: "overridden", lockID: 'say "hi"\\\n', clientID, oldWriter: "" });
+    const rendered = metrics.render();
+    expect(rendered).toContain('mongo_lock_overrides_total{lock_id="user"} 2\n');
+    expect(rendered).toContain('mongo_lock_overrides_total{lock_id="say \\"hi\\"\\\\\\n"} 1\n');
+  });
+
+  it("clears the metrics on reset", () => {
+    const metrics = new LockMetrics();
+    metrics.onEvent({ type: "overridden", lockID: "a", clientID, oldWriter: "" });
+    metrics.reset();
+    expect(metrics.render()).not.toContain("mongo_lock_overrides_total{");
+  });
+
+  it("collects metrics from a lock's events", async () => {
+    const metrics = new LockMetrics();
+    const lock = new RWMutex(new MockCollection(), "a", clientID, {
+      sleepTime: 5,
+      expiresAt: null,
+      onEvent: metrics.onEvent,
+    });
+    await lock.rLock();
+    await lock.rUnlock();
+    const rendered = metrics.render();
+    expect(rendered).toContain('mongo_lock_wait_seconds_count{lock_id="a",mode="read"} 1\n');
+    expect(rendered).toContain('mongo_lock_hold_seconds_count{lock_id="a",mode="read"} 1\n');
+  });
+});
@@ -0,0 +1,41 @@
+import { constantBackoff, decorrelatedJitter, exponentialBackoff } from "../lib/retry";
+
+describe("constantBackoff()", () => {
+  it("always waits the same time", () => {
+    const policy = constantBackoff(100);
+    expect(policy(1, 0)).toBe(100);
+    expect(policy(10, 100)).toBe(100);
+  });
+});
+
+describe("exponentialBackoff()", () => {
+  it("grows the delay by the factor up to the max", () => {
+    const policy = exponentialBackoff({ initial: 10, max: 100 });
+    expect([1, 2, 3, 4, 5].map((attempt) => policy(attempt, 0))).toEqual([10, 20, 40, 80, 100]);
+  });
+
+  it("supports a custom factor", () => {
+    const policy = exponentialBackoff({ initial: 10, max: 1000, factor: 3 });
+    expect(policy(3, 0)).toBe(90);
+  });
+});
+
+describe("decorrelatedJitter()", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("picks a delay between the base and three times the previous delay", () => {
+    const policy = decorrelatedJitter({ base: 10, max: 1000 });
+    jest.spyOn(Math, "random").mockReturnValue(0);
+    expect(policy(2, 50)).toBe(10);
+    jest.spyOn(Math, "random").mockReturnValue(0.5);
+    expect(policy(2, 50)).toBe(80);
+  });
+
+  it("never exceeds the max", () => {
+    const policy = decorrelatedJitter({ base: 10, max: 100 });
+    jest.spyOn(Math, "random").mockReturnValue(0.99);
+    expect(policy(5, 1000)).toBe(100);
+  });
+});
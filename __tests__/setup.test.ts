@@ -0,0 +1,101 @@
+import { Db } from "mongodb";
+import { ensureLockCollection, lockCollectionValidator, verifyLockCollection } from "../lib/setup";
+
+const name = "locks";
+const lockIDIndex = { name: "lockID_1", key: { lockID: 1 }, unique: true };
+const ttlIndex = { name: "expiresAt_1", key: { expiresAt: 1 }, expireAfterSeconds: 0 };
+
+// Fakes the parts of a mongodb Db used to set up a lock collection
+function mockDb(collectionInfo: any, indexes: any[]) {
+  const coll = {
+    indexes: jest.fn().mockReturnValue(Promise.resolve(indexes)),
+    createIndex: jest.fn().mockReturnValue(Promise.resolve("")),
+  };
+  const db = {
+    listCollections: jest.fn().mockReturnValue({
+      toArray: () => Promise.resolve(collectionInfo ? [collectionInfo] : []),
+    }),
+    createCollection: jest.fn().mockReturnValue(Promise.resolve(coll)),
+    command: jest.fn().mockReturnValue(Promise.resolve({ ok: 1 })),
+    collection: jest.fn().mockReturnValue(coll),
+  };
+  return { db, coll };
+}
+
+describe("ensureLockCollection", () => {
+  it("creates the collection and its indexes", async () => {
+    const { db, coll } = mockDb(null, []);
+    await ensureLockCollection((db as unknown) as Db, name, { validator: true });
+    expect(db.createCollection).toHaveBeenCalledWith(name, { validator: lockCollectionValidator });
+    expect(coll.createIndex).toHaveBeenCalledWith({ lockID: 1 }, { unique: true });
+    expect(coll.createIndex).toHaveBeenCalledWith({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+  });
+
+  it("only adds what is missing", async () => {
+    const { db, coll } = mockDb({ name, options: {} }, [lockIDIndex]);
+    await ensureLockCollection((db as unknown) as Db, name, { validator: true });
+    expect(db.createCollection).not.toHaveBeenCalled();
+    expect(db.command).toHaveBeenCalledWith({ collMod: name, validator: lockCollectionValidator });
+    expect(coll.createIndex).toHaveBeenCalledTimes(1);
+    expect(coll.createIndex).toHaveBeenCalledWith({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+  });
+
+  it("does nothing if the collection is already set up", async () => {
+    const { db, coll } = mockDb({ name, options: {} }, [lockIDIndex, ttlIndex]);
+    await ensureLockCollection((db as unknown) as Db, name);
+    expect(db.createCollection).not.toHaveBeenCalled();
+    expect(db.command).not.toHaveBeenCalled();
+    expect(coll.createIndex).not.toHaveBeenCalled();
+  });
+
+  it("skips the TTL index if it is not needed", async () => {
+    const { db, coll } = mockDb({ name, options: {} }, [lockIDIndex]);
+    await ensureLockCollection((db as unknown) as Db, name, { ttlIndex: false });
+    expect(coll.createIndex).not.toHaveBeenCalled();
+  });
+
+  it("rejects without changing anything if an index is misconfigured", async () => {
+    const { db, coll } = mockDb({ name, options: {} }, [{ ...lockIDIndex, unique: false }]);
+    await expect(ensureLockCollection((db as unknown) as Db, name)).rejects.toThrow(
+      "error setting up lock collection locks: index lockID_1 on lockID is not unique",
+    );
+    expect(coll.createIndex).not.toHaveBeenCalled();
+  });
+
+  it("rejects without changing anything in verify mode", async () => {
+    const { db, coll } = mockDb(null, []);
+    await expect(
+      ensureLockCollection((db as unknown) as Db, name, { verify: true }),
+    ).rejects.toThrow(
+      "error setting up lock collection locks: collection locks does not exist, " +
+        "collection locks has no unique index on lockID, collection locks has no TTL index on expiresAt",
+    );
+    expect(db.createCollection).not.toHaveBeenCalled();
+    expect(coll.createIndex).not.toHaveBeenCalled();
+  });
+});
+
+describe("verifyLockCollection", () => {
+  it("reports nothing if the collection is set up", async () => {
+    const { db } = mockDb({ name, options: { validator: lockCollectionValidator } }, [
+      lockIDIndex,
+      ttlIndex,
+    ]);
+    expect(await verifyLockCollection((db as unknown) as Db, name, { validator: true })).toEqual(
+      [],
+    );
+  });
+
+  it("reports missing and misconfigured indexes and validators", async () => {
+    const { db, coll } = mockDb({ name, options: { validator: { $jsonSchema: {} } } }, [
+      { name: "expiresAt_1", key: { expiresAt: 1 } },
+    ]);
+    expect(await verifyLockCollection((db as unknown) as Db, name, { validator: true })).toEqual([
+      "collection locks has a different validator",
+      "collection locks has no unique index on lockID",
+      "index expiresAt_1 on expiresAt must be a TTL index with expireAfterSeconds: 0",
+    ]);
+    expect(db.command).not.toHaveBeenCalled();
+    expect(coll.createIndex).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,206 @@
+import { SpanStatusCode, errorOutcome } from "../lib/tracing";
+import { RWMutex } from "../lib/RWMutex";
+import {
+  LockAbortedError,
+  LockAcquireError,
+  LockAttemptsExceededError,
+  LockNotHeldError,
+  LockOverrideConflictError,
+  LockTimeoutError,
+} from "../lib/errors";
+import MockCollection from "../__mocks__/MockCollection";
+import { MongoError } from "mongodb";
+
+const lockID = "lockID";
+const clientID = "1";
+
+const lockInUse = () => {
+  const err = new MongoError("E11000 duplicate key error collection");
+  err.code = 11000;
+  return Promise.reject(err);
+};
+
+// A tracer that records the spans it starts
+class FakeTracer {
+  spans: FakeSpan[] = [];
+
+  startSpan(name: string, options: { attributes?: any } = {}) {
+    const span = new FakeSpan(name, { ...options.attributes });
+    this.spans.push(span);
+    return span;
+  }
+
+  named(name: string) {
+    return this.spans.filter((span) => span.name === name);
+  }
+}
+
+class FakeSpan {
+  name: string;
+  attributes: any;
+  status: { code: number; message?: string } | null = null;
+  exceptions: unknown[] = [];
+  ended = false;
+
+  constructor(name: string, attributes: any) {
+    this.name = name;
+    this.attributes = attributes;
+  }
+
+  setAttribute(key: string, value: any) {
+    this.attributes[key] = value;
+  }
+
+  setStatus(status: { code: number; message?: string }) {
+    this.status = status;
+  }
+
+  recordException(exception: unknown) {
+    this.exceptions.push(exception);
+  }
+
+  end() {
+    this.ended = true;
+  }
+}
+
+describe("tracing", () => {
+  it("traces acquiring, holding and releasing a lock", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOneAndUpdate = jest
+      .fn()
+      .mockImplementationOnce(lockInUse)
+      .mockReturnValue(Promise.resolve({ fencingEpoch: 0, fencingCounter: 1 }));
+    const tracer = new FakeTracer();
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 5,
+      expiresAt: null,
+      tracer,
+    });
+    await lock.lock();
+    const [hold] = tracer.named("lock.hold");
+    expect(hold.ended).toBe(false);
+    await lock.unlock();
+
+    expect(tracer.spans.map((span) => span.name)).toEqual([
+      "lock.acquire",
+      "lock.hold",
+      "lock.release",
+    ]);
+    const [acquire] = tracer.named("lock.acquire");
+    expect(acquire.attributes).toEqual({
+      "lock.id": lockID,
+      "lock.client_id": clientID,
+      "lock.mode": "write",
+      "lock.attempts": 2,
+      "lock.outcome": "acquired",
+    });
+    expect(acquire.status).toEqual({ code: SpanStatusCode.OK });
+    expect(hold).toMatchObject({ ended: true, attributes: { "lock.outcome": "released" } });
+    expect(tracer.named("lock.release")[0]).toMatchObject({
+      ended: true,
+      attributes: { "lock.mode": "write", "lock.outcome": "released" },
+    });
+  });
+
+  it("records why acquiring a lock failed", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.updateOne = jest.fn(lockInUse);
+    const tracer = new FakeTracer();
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 5,
+      expiresAt: null,
+      tracer,
+    });
+    const err = await lock.rLock({ timeoutMs: 20 }).catch((err) => err);
+    expect(err).toBeInstanceOf(LockTimeoutError);
+    const [acquire] = tracer.spans;
+    expect(tracer.spans).toHaveLength(1);
+    expect(acquire.attributes["lock.outcome"]).toBe("timeout");
+    expect(acquire.attributes["lock.attempts"]).toBeGreaterThan(1);
+    expect(acquire.status).toEqual({ code: SpanStatusCode.ERROR, message: err.message });
+    expect(acquire.exceptions).toEqual([err]);
+    expect(acquire.ended).toBe(true);
+  });
+
+  it("ends the span of a single attempt that finds the lock held", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOneAndUpdate = jest.fn(lockInUse);
+    const tracer = new FakeTracer();
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 5,
+      expiresAt: null,
+      tracer,
+    });
+    expect(await lock.tryLock()).toBe(false);
+    expect(tracer.spans).toHaveLength(1);
+    expect(tracer.spans[0]).toMatchObject({
+      ended: true,
+      attributes: { "lock.attempts": 1, "lock.outcome": "busy" },
+    });
+  });
+
+  it("traces overriding the writer", async () => {
+    const tracer = new FakeTracer();
+    const lock = new RWMutex(new MockCollection(), lockID, clientID, {
+      sleepTime: 5,
+      expiresAt: null,
+      tracer,
+    });
+    await lock.tryOverrideLockWriter("2");
+    expect(tracer.spans.map((span) => span.name)).toEqual(["lock.override", "lock.hold"]);
+    expect(tracer.spans[0]).toMatchObject({
+      ended: true,
+      attributes: { "lock.mode": "write", "lock.outcome": "overridden" },
+    });
+  });
+
+  it("ends the override span when it runs out of attempts", async () => {
+    const mockCollection = new MockCollection();
+    mockCollection.findOne = jest.fn().mockReturnValue(Promise.resolve({ writer: "2" }));
+    mockCollection.findOneAndUpdate = jest.fn(lockInUse);
+    const tracer = new FakeTracer();
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 1,
+      expiresAt: null,
+      maxAttempts: 2,
+      tracer,
+    });
+    await expect(lock.conditionalOverrideLockWriter(() => Promise.resolve(true))).rejects.toThrow(
+      LockAttemptsExceededError,
+    );
+    expect(tracer.spans).toHaveLength(1);
+    expect(tracer.spans[0]).toMatchObject({
+      ended: true,
+      attributes: { "lock.attempts": 2, "lock.outcome": "attempts_exceeded" },
+    });
+  });
+
+  it("ends the hold span when a heartbeat finds the lock lost", async () => {
+    const mockCollection = new MockCollection();
+    const tracer = new FakeTracer();
+    const lock = new RWMutex(mockCollection, lockID, clientID, {
+      sleepTime: 5,
+      expiresAt: null,
+      heartbeat: { leaseTime: 1000, interval: 5 },
+      tracer,
+    });
+    await lock.rLock();
+    mockCollection.updateOne = jest.fn(() => Promise.resolve({ matchedCount: 0 }));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    lock._stopHeartbeat();
+    expect(tracer.named("lock.hold")[0]).toMatchObject({
+      ended: true,
+      attributes: { "lock.outcome": "lost" },
+      status: { code: SpanStatusCode.ERROR },
+    });
+  });
+
+  it("maps errors to outcomes", () => {
+    expect(errorOutcome(new LockTimeoutError(lockID, clientID, 10))).toBe("timeout");
+    expect(errorOutcome(new LockAbortedError(lockID, clientID))).toBe("aborted");
+    expect(errorOutcome(new LockNotHeldError(lockID, clientID))).toBe("not_held");
+    expect(errorOutcome(new LockOverrideConflictError(lockID, clientID))).toBe("conflict");
+    expect(errorOutcome(new LockAcquireError(lockID, clientID))).toBe("error");
+  });
+});
@@ -0,0 +1,263 @@
+import { ObjectId } from "mongodb";
+import { LockNotHeldError, LockShutdownTimeoutError } from "./errors";
+import { LockEvent } from "./events";
+import { MongoLockCollection, RWMutex, RWMutexOptions } from "./RWMutex";
+
+export interface LockClientOptions {
+  // id identifying this client to other clients of the locks. Must be unique. Defaults to a
+  // generated id, which is unique per LockClient
+  clientID?: string;
+  // options for every lock created by this client, which rwMutex() can override per lock.
+  // sleepTime defaults to 1000 and expiresAt to null
+  lockOptions?: Partial<RWMutexOptions>;
+  // when set, the client shuts down when the process receives one of the given signals, see
+  // shutdown(). Afterwards the signal is raised again, so that the process exits as it would have,
+  // unless the process has other handlers for it
+  shutdown?: ShutdownOptions | null;
+}
+
+export interface ShutdownOptions {
+  // the signals to shut down on. Defaults to SIGTERM and SIGINT
+  signals?: NodeJS.Signals[];
+  // how long to wait for the locks to be released, in ms. Defaults to 10000
+  timeoutMs?: number;
+  // called when shutting down on a signal fails, e.g. because the deadline passed
+  onError?: (err: unknown) => void;
+}
+
+/*
+ * LockClient creates the locks of one client, usually one per process, so that call sites do not
+ * need to pass around the collection, a unique clientID and the lock options. It keeps track of
+ * the locks its RWMutexes hold, so they can all be released at once, e.g. when shutting down.
+ */
+export class LockClient {
+  clientID: string;
+  _coll: MongoLockCollection;
+  _lockOptions: RWMutexOptions;
+  // the RWMutexes holding each lock, by lockID and mode
+  _held: { [lockID: string]: { read?: RWMutex; write?: RWMutex } } = {};
+  // aborts the acquisitions of this client's locks when shutting down
+  _abortController = new AbortController();
+  // settles once shutting down is done, if it has started
+  _shutdown: Promise<void> | null = null;
+  _signalHandlers: { signal: NodeJS.Signals; handler: () => void }[] = [];
+
+  /*
+   * Creates a new LockClient
+   * @param {mongodb Collection} collection - the mongodb Collection where the locks are stored
+   * @param {Object} options - the clientID, default lock options and signals to shut down on
+   */
+  constructor(coll: MongoLockCollection, options: LockClientOptions = {}) {
+    this._coll = coll;
+    this.clientID = options.clientID || new ObjectId().toHexString();
+    this._lockOptions = { sleepTime: 1000, expiresAt: null, ...options.lockOptions };
+    if (options.shutdown) {
+      this._handleSignals(options.shutdown);
+    }
+  }
+
+  /*
+   * Creates an RWMutex for a lock, held by this client.
+   * @param {string} lockID - id corresponding to the resource you are locking
+   * @param {Object} options - options overriding the client's lock options for this lock
+   * @return {RWMutex} - the lock
+   */
+  rwMutex(lockID: string, options: Partial<RWMutexOptions> = {}): RWMutex {
+    const lockOptions = { ...this._lockOptions, ...options };
+    const onEvent = lockOptions.onEvent;
+    const mutex = new RWMutex(this._coll, lockID, this.clientID, {
+      ...lockOptions,
+      onEvent: (event: LockEvent) => {
+        this._track(mutex, event);
+        if (onEvent) {
+          onEvent(event);
+        }
+      },
+    });
+    mutex._shutdownSignal = this._abortController.signal;
+    return mutex;
+  }
+
+  /*
+   * Lists the locks this client's RWMutexes currently hold.
+   * @return {Array} - the lockID and mode of each held lock
+   */
+  heldLocks(): { lockID: string; mode: "read" | "write" }[] {
+    const locks: { lockID: string; mode: "read" | "write" }[] = [];
+    for (const lockID of Object.keys(this._held)) {
+      for (const mode of ["write", "read"] as const) {
+        if (this._held[lockID][mode]) {
+          locks.push({ lockID, mode });
+        }
+      }
+    }
+    return locks;
+  }
+
+  /*
+   * Releases every lock this client's RWMutexes hold, all of their holds with counted reentrancy.
+   * Keeps releasing the other locks if releasing one of them fails.
+   * @return {Promise} - Resolves when the locks are released, rejects with the first error if
+   * releasing any of them failed
+   */
+  async releaseAll(): Promise<void> {
+    let firstErr: unknown = null;
+    for (const { lockID, mode } of this.heldLocks()) {
+      try {
+        // with counted reentrancy, every unlock drops one hold until the last one releases the lock
+        let mutex: RWMutex;
+        while ((mutex = this._held[lockID] && this._held[lockID][mode])) {
+          await (mode === "write" ? mutex.unlock() : mutex.rUnlock());
+        }
+      } catch (err) {
+        // the lock is not held anymore or cannot be released, so do not try again
+        this._untrack(lockID, mode);
+        firstErr = firstErr || err;
+      }
+    }
+    if (firstErr) {
+      throw firstErr;
+    }
+  }
+
+  /*
+   * Shuts the client down: gives up on the acquisitions of its locks that are under way, which
+   * reject with a LockAbortedError, and releases every lock it holds like releaseAll(). Locks
+   * acquired afterwards, e.g. by an attempt that was already under way, are released right away.
+   * Calling it again returns the same promise.
+   * @param {Object} options - how long to wait for the locks to be released, in ms. Defaults to
+   * 10000
+   * @return {Promise} - Resolves when the locks are released. Rejects with a
+   * LockShutdownTimeoutError if some are still held once the timeout passes, in which case their
+   * heartbeats are stopped so that their leases run out, and like releaseAll() if releasing any of
+   * them failed
+   */
+  shutdown(options: { timeoutMs?: number } = {}): Promise<void> {
+    if (!this._shutdown) {
+      this._removeSignalHandlers();
+      this._abortController.abort();
+      const timeoutMs = options.timeoutMs != null ? options.timeoutMs : 10000;
+      this._shutdown = this._releaseAllWithin(timeoutMs);
+    }
+    return this._shutdown;
+  }
+
+  /*
+   * Releases every lock like releaseAll(), giving up once the timeout passes.
+   */
+  async _releaseAllWithin(timeoutMs: number): Promise<void> {
+    let timer: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<"timeout">((resolve) => {
+      timer = setTimeout(() => resolve("timeout"), timeoutMs);
+    });
+    try {
+      const released = this.releaseAll().then(() => "released" as const);
+      if ((await Promise.race([released, timeout])) === "released") {
+        return;
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+    const locks = this.heldLocks();
+    for (const { lockID, mode } of locks) {
+      this._held[lockID][mode]._stopHeartbeat();
+    }
+    throw new LockShutdownTimeoutError(timeoutMs, locks);
+  }
+
+  /*
+   * Shuts the client down when the process receives one of the given signals.
+   * @param {Object} options - the signals, timeout and error handler
+   */
+  _handleSignals(options: ShutdownOptions) {
+    for (const signal of options.signals || (["SIGTERM", "SIGINT"] as NodeJS.Signals[])) {
+      const handler = () => {
+        this.shutdown({ timeoutMs: options.timeoutMs })
+          .catch((err) => {
+            if (options.onError) {
+              options.onError(err);
+            }
+          })
+          .then(() => {
+            // shutdown() removed this handler, so unless the process has others this exits the
+            // way the signal would have without it
+            if (process.listenerCount(signal) === 0) {
+              process.kill(process.pid, signal);
+            }
+          });
+      };
+      process.on(signal, handler);
+      this._signalHandlers.push({ signal, handler });
+    }
+  }
+
+  /*
+   * Stops shutting down on signals.
+   */
+  _removeSignalHandlers() {
+    for (const { signal, handler } of this._signalHandlers) {
+      process.removeListener(signal, handler);
+    }
+    this._signalHandlers = [];
+  }
+
+  /*
+   * Updates the locks held from an event of one of this client's RWMutexes.
+   * @param {RWMutex} mutex - the RWMutex the event is about
+   * @param {Object} event - the event
+   */
+  _track(mutex: RWMutex, event: LockEvent) {
+    switch (event.type) {
+      case "acquired":
+        this._held[event.lockID] = { ...this._held[event.lockID], [event.mode]: mutex };
+        this._releaseIfShutDown(mutex, event.mode);
+        break;
+      case "overridden":
+        this._held[event.lockID] = { ...this._held[event.lockID], write: mutex };
+        this._releaseIfShutDown(mutex, "write");
+        break;
+      case "released":
+        this._untrack(event.lockID, event.mode);
+        break;
+      case "expired":
+        // this client's own hold, if it was the one that expired
+        if (event.writer === this.clientID) {
+          this._untrack(event.lockID, "write");
+        }
+        if (event.readers.includes(this.clientID)) {
+          this._untrack(event.lockID, "read");
+        }
+        break;
+      case "failed":
+        // e.g. releasing a lock whose lease ran out without a heartbeat
+        if (event.error instanceof LockNotHeldError && event.mode !== "override") {
+          this._untrack(event.lockID, event.mode);
+        }
+        break;
+    }
+  }
+
+  /*
+   * Releases a lock acquired after shutting down began, e.g. by an attempt that was already under
+   * way. Errors are ignored, since there is nobody left to report them to.
+   */
+  _releaseIfShutDown(mutex: RWMutex, mode: "read" | "write") {
+    if (this._shutdown) {
+      (mode === "write" ? mutex.unlock() : mutex.rUnlock()).catch(() => {});
+    }
+  }
+
+  /*
+   * Forgets that this client holds a lock.
+   */
+  _untrack(lockID: string, mode: "read" | "write") {
+    const held = this._held[lockID];
+    if (!held) {
+      return;
+    }
+    delete held[mode];
+    if (!held.read && !held.write) {
+      delete this._held[lockID];
+    }
+  }
+}
@@ -0,0 +1,44 @@
+// Node only defines Symbol.asyncDispose in its main realm, as Symbol.for("nodejs.asyncDispose").
+// Define it the same way where it is missing (e.g. in vm contexts), so that `await using` works
+if (!Symbol.asyncDispose) {
+  Object.defineProperty(Symbol, "asyncDispose", { value: Symbol.for("nodejs.asyncDispose") });
+}
+
+/*
+ * LockHandle stands for a lock held by a client, and releases it when disposed of. This lets
+ * TypeScript's `await using` release the lock once the holder goes out of scope:
+ *
+ *   await using handle = await lock.lockHandle();
+ */
+export class LockHandle {
+  // fencing token of the write lock, or null for a read lock
+  fencingToken: number | null;
+  _release: () => Promise<void>;
+  _released = false;
+
+  /*
+   * Creates a new LockHandle
+   * @param {Function} release - releases the lock
+   * @param {number} fencingToken - fencing token of the write lock, or null for a read lock
+   */
+  constructor(release: () => Promise<void>, fencingToken: number | null = null) {
+    this._release = release;
+    this.fencingToken = fencingToken;
+  }
+
+  /*
+   * Releases the lock, unless it has already been released through this handle.
+   * @return {Promise} - Resolves when the lock is released, rejects if an error occurs
+   */
+  async release(): Promise<void> {
+    if (this._released) {
+      return;
+    }
+    await this._release();
+    this._released = true;
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.release();
+  }
+}
@@ -0,0 +1,123 @@
+// The subset of a mongodb ChangeStream used to wait for lock releases
+export interface LockChangeStream {
+  on: (event: any, listener: (arg: any) => void) => unknown;
+  close: () => Promise<void>;
+}
+
+// The subset of a mongodb Collection needed to watch a lock document
+export interface WatchableCollection {
+  watch?: (pipeline?: any[], options?: any) => LockChangeStream;
+}
+
+// Fields whose changes may free up a lock: its holders, the permits in use of a semaphore, and
+// the clients waiting in line or with writer preference, who may have left
+const releasingFields = ["writer", "readers", "used", "queue", "writerIntents"];
+
+/*
+ * Returns whether a change to the lock document may have freed it up, i.e. whether it was inserted,
+ * replaced or deleted, or its writer, readers, permits in use (for semaphores), queue or writer
+ * intents changed. Renewals of leases, tickets and intents are ignored.
+ */
+export function mayReleaseLock(change: any): boolean {
+  if (change.operationType !== "update") {
+    return true;
+  }
+  const description = change.updateDescription || {};
+  const truncated = (description.truncatedArrays || []).map((array) => array.field);
+  const fields = Object.keys(description.updatedFields || {})
+    .concat(description.removedFields || [])
+    .concat(truncated);
+  return fields.some(
+    (field) => releasingFields.indexOf(field) !== -1 || field.startsWith("readers."),
+  );
+}
+
+/*
+ * LockWatcher watches the change stream of a lock collection for changes that may release a lock,
+ * so that waiting clients can retry right away instead of sleeping out their full retry interval.
+ * If change streams are not available (e.g. on a standalone mongod), waiting falls back to sleeping.
+ */
+export class LockWatcher {
+  _stream: LockChangeStream | null = null;
+  _wakers: (() => void)[] = [];
+
+  /*
+   * Starts watching a lock.
+   * @param {mongodb Collection} collection - the collection the lock is stored in
+   * @param {string} lockID - id of the lock to watch
+   * @return {Promise} - Resolves to the watcher, or null if the collection does not support watching
+   */
+  static async open(coll: WatchableCollection, lockID: string): Promise<LockWatcher | null> {
+    if (!coll.watch) {
+      return null;
+    }
+    // inserts and updates are matched on the lockID of the full document. Deletes only carry the
+    // _id of the deleted document, which changes every time the lock document is recreated, so
+    // every delete wakes waiters, who then check whether it freed up their lock
+    const match: any[] = [{ "fullDocument.lockID": lockID }, { operationType: "delete" }];
+    const watcher = new LockWatcher();
+    try {
+      watcher._stream = coll.watch([{ $match: { $or: match } }], { fullDocument: "updateLookup" });
+    } catch (err) {
+      return null;
+    }
+    watcher._stream.on("change", (change) => {
+      if (mayReleaseLock(change)) {
+        watcher._wake();
+      }
+    });
+    // most likely change streams are not supported by the server. Fall back to sleeping
+    watcher._stream.on("error", () => {
+      watcher.close();
+      watcher._wake();
+    });
+    return watcher;
+  }
+
+  /*
+   * Waits for a change that may release the lock.
+   * @param {number} delay - the longest to wait, in ms
+   * @param {AbortSignal} signal - resolves early if aborted
+   * @return {Promise} - Resolves on a change, after the delay or once the signal is aborted
+   */
+  wait(delay: number, signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve) => {
+      if (signal && signal.aborted) {
+        resolve();
+        return;
+      }
+      const done = () => {
+        clearTimeout(timer);
+        this._wakers = this._wakers.filter((waker) => waker !== done);
+        if (signal) {
+          signal.removeEventListener("abort", done);
+        }
+        resolve();
+      };
+      const timer = setTimeout(done, delay);
+      if (signal) {
+        signal.addEventListener("abort", done);
+      }
+      if (this._stream) {
+        this._wakers.push(done);
+      }
+    });
+  }
+
+  /*
+   * Stops watching the lock.
+   */
+  close() {
+    if (this._stream) {
+      const stream = this._stream;
+      this._stream = null;
+      stream.close().catch(() => {});
+    }
+  }
+
+  _wake() {
+    for (const waker of this._wakers) {
+      waker();
+    }
+  }
+}
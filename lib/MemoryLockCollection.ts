@@ -0,0 +1,614 @@
+import {
+  DeleteResult,
+  FindOneAndUpdateOptions,
+  MongoServerError,
+  ObjectId,
+  UpdateOptions,
+  UpdateResult,
+} from "mongodb";
+import { DuplicateKeyErrorCode, MongoLock, MongoLockCollection } from "./RWMutex";
+
+export interface MemoryLockCollectionOptions {
+  // whether documents are deleted once their expiresAt has passed, like with the TTL index on
+  // expiresAt that ensureLockCollection creates. Defaults to true
+  ttlIndex?: boolean;
+}
+
+type Document = { [key: string]: any };
+
+function isPlainObject(value: unknown): value is Document {
+  return (
+    typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+// Whether a condition is made up of operators, e.g. { $gt: 1 }, rather than a value to match
+function isOperatorObject(value: unknown): value is Document {
+  const keys = isPlainObject(value) ? Object.keys(value) : [];
+  return keys.length > 0 && keys.every((key) => key.startsWith("$"));
+}
+
+// Deep copies a document, so that callers cannot change the stored documents
+function clone<T>(value: T): T {
+  if (value instanceof Date) {
+    return (new Date(value.getTime()) as unknown) as T;
+  }
+  if (Array.isArray(value)) {
+    return (value.map(clone) as unknown) as T;
+  }
+  if (isPlainObject(value)) {
+    const copy: Document = {};
+    for (const key of Object.keys(value)) {
+      copy[key] = clone(value[key]);
+    }
+    return copy as T;
+  }
+  return value;
+}
+
+// Compares two values the way mongo does, treating a missing field like null
+function equals(a: any, b: any): boolean {
+  a = a === undefined ? null : a;
+  b = b === undefined ? null : b;
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((element, i) => equals(element, b[i]))
+    );
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => equals(a[key], b[key]));
+  }
+  if (a instanceof ObjectId && b instanceof ObjectId) {
+    return a.equals(b);
+  }
+  return a === b;
+}
+
+// Orders two dates, numbers or strings. Returns null for values of different types, which range
+// queries do not match
+function compare(a: unknown, b: unknown): number | null {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() - b.getTime();
+  }
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+  if (typeof a === "string" && typeof b === "string") {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  return null;
+}
+
+/*
+ * Returns the values a dotted path refers to. A path through an array refers to the field in each
+ * of its elements, e.g. "holders.clientID" to the clientID of every holder. A missing field is
+ * undefined.
+ */
+function valuesAt(value: unknown, path: string[]): unknown[] {
+  if (path.length === 0) {
+    return [value];
+  }
+  const [key, ...rest] = path;
+  if (Array.isArray(value)) {
+    if (/^\d+$/.test(key)) {
+      return valuesAt(value[Number(key)], rest);
+    }
+    const values: unknown[] = [];
+    for (const element of value) {
+      if (isPlainObject(element)) {
+        values.push(...valuesAt(element[key], rest));
+      }
+    }
+    return values;
+  }
+  if (isPlainObject(value)) {
+    return valuesAt(value[key], rest);
+  }
+  return [undefined];
+}
+
+// Whether a value equals the expected one or, if it is an array, has an element that does
+function matchesValue(value: unknown, expected: unknown): boolean {
+  return (
+    equals(value, expected) ||
+    (Array.isArray(value) && value.some((element) => equals(element, expected)))
+  );
+}
+
+// Whether a value or any of its elements is in the given order relative to the operand
+function matchesRange(value: unknown, operand: unknown, test: (order: number) => boolean): boolean {
+  const candidates = Array.isArray(value) ? [value, ...value] : [value];
+  return candidates.some((candidate) => {
+    const order = compare(candidate, operand);
+    return order !== null && test(order);
+  });
+}
+
+/*
+ * Returns whether the values of a field satisfy a condition, which is either a value to match or an
+ * object of query operators.
+ */
+function matchesCondition(values: unknown[], condition: unknown): boolean {
+  if (!isOperatorObject(condition)) {
+    return values.some((value) => matchesValue(value, condition));
+  }
+  return Object.keys(condition).every((op) => {
+    const operand = condition[op];
+    switch (op) {
+      case "$eq":
+        return values.some((value) => matchesValue(value, operand));
+      case "$ne":
+        return !values.some((value) => matchesValue(value, operand));
+      case "$gt":
+        return values.some((value) => matchesRange(value, operand, (order) => order > 0));
+      case "$gte":
+        return values.some((value) => matchesRange(value, operand, (order) => order >= 0));
+      case "$lt":
+        return values.some((value) => matchesRange(value, operand, (order) => order < 0));
+      case "$lte":
+        return values.some((value) => matchesRange(value, operand, (order) => order <= 0));
+      case "$in":
+        return operand.some((expected) => values.some((value) => matchesValue(value, expected)));
+      case "$nin":
+        return !operand.some((expected) => values.some((value) => matchesValue(value, expected)));
+      case "$exists":
+        return values.some((value) => value !== undefined) === !!operand;
+      case "$size":
+        return values.some((value) => Array.isArray(value) && value.length === operand);
+      case "$all":
+        return operand.every((expected) => values.some((value) => matchesValue(value, expected)));
+      case "$elemMatch":
+        return values.some(
+          (value) =>
+            Array.isArray(value) &&
+            value.some((element) =>
+              isOperatorObject(operand)
+                ? matchesCondition([element], operand)
+                : isPlainObject(element) && matches(element, operand),
+            ),
+        );
+      case "$not":
+        return !matchesCondition(values, operand);
+      default:
+        throw new Error(`unsupported query operator ${op}`);
+    }
+  });
+}
+
+/*
+ * Returns whether a document matches a mongo filter.
+ */
+function matches(doc: Document, filter: Document): boolean {
+  return Object.keys(filter).every((key) => {
+    const condition = filter[key];
+    switch (key) {
+      case "$and":
+        return condition.every((subFilter) => matches(doc, subFilter));
+      case "$or":
+        return condition.some((subFilter) => matches(doc, subFilter));
+      case "$nor":
+        return !condition.some((subFilter) => matches(doc, subFilter));
+    }
+    if (key.startsWith("$")) {
+      throw new Error(`unsupported query operator ${key}`);
+    }
+    return matchesCondition(valuesAt(doc, key.split(".")), condition);
+  });
+}
+
+/*
+ * Returns whether an element of an array satisfies the conditions a filter places on the array,
+ * e.g. { "queue.clientID": "a" } or { queue: { $elemMatch: { clientID: "a" } } } for "queue".
+ */
+function elementMatches(element: unknown, filter: Document, arrayPath: string): boolean {
+  return Object.keys(filter).every((key) => {
+    if (key === "$and") {
+      return filter[key].every((subFilter) => elementMatches(element, subFilter, arrayPath));
+    }
+    if (key === arrayPath) {
+      return matchesCondition([[element]], filter[key]);
+    }
+    if (key.startsWith(`${arrayPath}.`)) {
+      const rest = key.slice(arrayPath.length + 1).split(".");
+      return matchesCondition(valuesAt(element, rest), filter[key]);
+    }
+    return true;
+  });
+}
+
+/*
+ * Replaces the positional operator in an update path, e.g. "queue.$.expiresAt", with the index of
+ * the first array element the filter matched.
+ */
+function resolvePositional(doc: Document, filter: Document, path: string): string {
+  const parts = path.split(".");
+  const positional = parts.indexOf("$");
+  if (positional === -1) {
+    return path;
+  }
+  const arrayPath = parts.slice(0, positional).join(".");
+  const array = getAt(doc, parts.slice(0, positional));
+  const index = Array.isArray(array)
+    ? array.findIndex((element) => elementMatches(element, filter, arrayPath))
+    : -1;
+  if (index === -1) {
+    throw new Error(`the positional operator did not find the match needed from the query`);
+  }
+  parts[positional] = String(index);
+  return parts.join(".");
+}
+
+/*
+ * Expands the filtered positional operator in an update path, e.g.
+ * "readerLeases.$[holder].expiresAt", into a path for every element of the array that the array
+ * filter for the identifier matches.
+ */
+function resolveFilteredPositional(
+  doc: Document,
+  arrayFilters: Document[],
+  path: string,
+): string[] {
+  const parts = path.split(".");
+  const positional = parts.findIndex((part) => /^\$\[\w+\]$/.test(part));
+  if (positional === -1) {
+    return [path];
+  }
+  const identifier = parts[positional].slice(2, -1);
+  const arrayFilter = arrayFilters.find((candidate) =>
+    Object.keys(candidate).some((key) => key === identifier || key.startsWith(`${identifier}.`)),
+  );
+  if (!arrayFilter) {
+    throw new Error(`no array filter found for identifier '${identifier}' in path '${path}'`);
+  }
+  const array = getAt(doc, parts.slice(0, positional));
+  if (!Array.isArray(array)) {
+    return [];
+  }
+  const paths: string[] = [];
+  array.forEach((element, index) => {
+    if (matches({ [identifier]: element }, arrayFilter)) {
+      const resolved = [
+        ...parts.slice(0, positional),
+        String(index),
+        ...parts.slice(positional + 1),
+      ];
+      paths.push(...resolveFilteredPositional(doc, arrayFilters, resolved.join(".")));
+    }
+  });
+  return paths;
+}
+
+function getAt(doc: Document, path: string[]): any {
+  let value: any = doc;
+  for (const key of path) {
+    if (!isPlainObject(value) && !Array.isArray(value)) {
+      return undefined;
+    }
+    value = value[key];
+  }
+  return value;
+}
+
+function setAt(doc: Document, path: string[], value: unknown) {
+  let parent: any = doc;
+  for (const key of path.slice(0, -1)) {
+    if (!isPlainObject(parent[key]) && !Array.isArray(parent[key])) {
+      parent[key] = {};
+    }
+    parent = parent[key];
+  }
+  parent[path[path.length - 1]] = value;
+}
+
+function unsetAt(doc: Document, path: string[]) {
+  const parent = getAt(doc, path.slice(0, -1));
+  if (isPlainObject(parent)) {
+    delete parent[path[path.length - 1]];
+  }
+}
+
+// Returns the array at a path, creating it if the field is missing
+function arrayAt(doc: Document, path: string[], op: string): unknown[] {
+  let array = getAt(doc, path);
+  if (array === undefined) {
+    array = [];
+    setAt(doc, path, array);
+  }
+  if (!Array.isArray(array)) {
+    throw new Error(`cannot apply ${op} to non-array field ${path.join(".")}`);
+  }
+  return array;
+}
+
+// Whether $pull removes an element, given the value or condition it was passed
+function pulls(element: unknown, condition: unknown): boolean {
+  if (isOperatorObject(condition)) {
+    return matchesCondition([element], condition);
+  }
+  if (isPlainObject(condition)) {
+    return isPlainObject(element) && matches(element, condition);
+  }
+  return equals(element, condition);
+}
+
+/*
+ * Applies a mongo update to a document in place.
+ * @param {Object} doc - the document to update
+ * @param {Object} update - the update
+ * @param {Object} filter - the filter that matched the document, for the positional operator
+ * @param {boolean} inserting - whether the document is being inserted by an upsert
+ * @param {Array} arrayFilters - the array filters for the filtered positional operator
+ */
+function applyUpdate(
+  doc: Document,
+  update: Document,
+  filter: Document,
+  inserting: boolean,
+  arrayFilters: Document[] = [],
+) {
+  for (const op of Object.keys(update)) {
+    if (op === "$setOnInsert" && !inserting) {
+      continue;
+    }
+    const fields = update[op];
+    for (const field of Object.keys(fields)) {
+      const positionalPath = resolvePositional(doc, filter, field);
+      for (const resolved of resolveFilteredPositional(doc, arrayFilters, positionalPath)) {
+        applyOperator(doc, op, resolved.split("."), fields[field]);
+      }
+    }
+  }
+}
+
+// Applies one update operator to the field at a path
+function applyOperator(doc: Document, op: string, path: string[], value: any) {
+  switch (op) {
+    case "$set":
+    case "$setOnInsert":
+      setAt(doc, path, clone(value));
+      break;
+    case "$unset":
+      unsetAt(doc, path);
+      break;
+    case "$inc":
+      setAt(doc, path, (getAt(doc, path) || 0) + value);
+      break;
+    case "$max": {
+      const current = getAt(doc, path);
+      if (current === undefined || current === null || compare(value, current) > 0) {
+        setAt(doc, path, clone(value));
+      }
+      break;
+    }
+    case "$push":
+      arrayAt(doc, path, op).push(clone(value));
+      break;
+    case "$addToSet": {
+      const array = arrayAt(doc, path, op);
+      if (!array.some((element) => equals(element, value))) {
+        array.push(clone(value));
+      }
+      break;
+    }
+    case "$pull": {
+      const array = getAt(doc, path);
+      if (Array.isArray(array)) {
+        setAt(
+          doc,
+          path,
+          array.filter((element) => !pulls(element, value)),
+        );
+      }
+      break;
+    }
+    default:
+      throw new Error(`unsupported update operator ${op}`);
+  }
+}
+
+/*
+ * Returns the document an upsert starts from: the fields the filter matches by value. Fields under
+ * $or or matched with operators are left out, as in mongo.
+ */
+function upsertBase(filter: Document): Document {
+  const doc: Document = {};
+  for (const key of Object.keys(filter)) {
+    if (key === "$and") {
+      for (const subFilter of filter[key]) {
+        const base = upsertBase(subFilter);
+        for (const field of Object.keys(base)) {
+          doc[field] = base[field];
+        }
+      }
+    } else if (!key.startsWith("$") && !isOperatorObject(filter[key])) {
+      setAt(doc, key.split("."), clone(filter[key]));
+    }
+  }
+  return doc;
+}
+
+/*
+ * MemoryLockCollection is a MongoLockCollection that keeps the lock documents in memory, for tests
+ * and local development without a mongod. It evaluates the filters and applies the updates locks
+ * issue, and like a lock collection set up with ensureLockCollection it has a unique index on
+ * lockID and deletes documents whose expiresAt has passed, so that clients contend for locks as
+ * they would in mongo. Every operation is atomic, and documents are copied in and out so that
+ * changing them does not change the collection.
+ *
+ * Only the query and update operators locks use are supported; others reject with an error. Unlike
+ * mongo's TTL monitor, which runs once a minute, expired documents are deleted as soon as the
+ * collection is next used. The collection cannot be watched, so the "changeStream" wait strategy
+ * falls back to polling.
+ */
+export class MemoryLockCollection implements MongoLockCollection {
+  _documents: Document[] = [];
+  _ttlIndex: boolean;
+
+  /*
+   * Creates a new, empty MemoryLockCollection
+   * @param {Object} options - whether documents expire like with a TTL index on expiresAt
+   */
+  constructor(options: MemoryLockCollectionOptions = {}) {
+    this._ttlIndex = options.ttlIndex !== false;
+  }
+
+  /*
+   * Finds a lock document.
+   * @param {Object} filter - a mongodb filter
+   * @return {Promise} - Resolves to a copy of the first matching document, or null if none match
+   */
+  async findOne(filter: any): Promise<MongoLock | null> {
+    const doc = this._find(filter);
+    return doc ? (clone(doc) as MongoLock) : null;
+  }
+
+  /*
+   * Finds lock documents, for listLocks.
+   * @param {Object} filter - a mongodb filter
+   * @return {Object} - a cursor whose toArray() resolves to copies of the matching documents
+   */
+  find(filter: any = {}): { toArray: () => Promise<MongoLock[]> } {
+    return {
+      toArray: async () => {
+        this._expire();
+        return this._documents.filter((doc) => matches(doc, filter)).map(clone) as MongoLock[];
+      },
+    };
+  }
+
+  /*
+   * Deletes a lock document.
+   * @param {Object} filter - a mongodb filter
+   * @return {Promise} - Resolves to the number of documents deleted, 0 or 1
+   */
+  async deleteOne(filter: any): Promise<DeleteResult> {
+    const doc = this._find(filter);
+    if (doc) {
+      this._documents = this._documents.filter((other) => other !== doc);
+    }
+    return { acknowledged: true, deletedCount: doc ? 1 : 0 };
+  }
+
+  /*
+   * Updates a lock document, or inserts one with upsert.
+   * @param {Object} filter - a mongodb filter
+   * @param {Object} update - a mongodb update
+   * @param {Object} options - whether to upsert, and the array filters of the update
+   * @return {Promise} - Resolves to the number of documents matched, modified and upserted, rejects
+   * with a duplicate key error if an upsert would insert a second document with the same lockID
+   */
+  async updateOne(
+    filter: any,
+    update: any,
+    options: UpdateOptions = {},
+  ): Promise<UpdateResult<MongoLock>> {
+    const { doc, before } = this._update(filter, update, options);
+    const result = {
+      acknowledged: true,
+      matchedCount: 0,
+      modifiedCount: 0,
+      upsertedCount: 0,
+      upsertedId: null,
+    };
+    if (doc && !before) {
+      result.upsertedCount = 1;
+      result.upsertedId = doc._id;
+    } else if (doc) {
+      result.matchedCount = 1;
+      result.modifiedCount = equals(before, doc) ? 0 : 1;
+    }
+    return result;
+  }
+
+  /*
+   * Updates a lock document, or inserts one with upsert, and returns it.
+   * @param {Object} filter - a mongodb filter
+   * @param {Object} update - a mongodb update
+   * @param {Object} options - whether to upsert, the array filters of the update and whether to
+   * return the document as it was "before" (the default) or "after" the update
+   * @return {Promise} - Resolves to a copy of the document, or null if none matched or it was
+   * upserted and "before" was asked for. Rejects like updateOne
+   */
+  async findOneAndUpdate(
+    filter: any,
+    update: any,
+    options: FindOneAndUpdateOptions = {},
+  ): Promise<MongoLock | null> {
+    const { doc, before } = this._update(filter, update, options);
+    const returned = options.returnDocument === "after" ? doc : before;
+    return returned ? (clone(returned) as MongoLock) : null;
+  }
+
+  /*
+   * Removes all of the lock documents.
+   */
+  clear() {
+    this._documents = [];
+  }
+
+  /*
+   * Returns the stored document matching a filter, after deleting expired documents.
+   */
+  _find(filter: any): Document | undefined {
+    this._expire();
+    return this._documents.find((doc) => matches(doc, filter));
+  }
+
+  /*
+   * Updates the first document matching a filter, or inserts one with upsert.
+   * @return {Object} - the stored document after the update and a copy of it from before, which is
+   * null if it was inserted. Both are null if nothing matched
+   */
+  _update(
+    filter: any,
+    update: any,
+    options: { upsert?: boolean; arrayFilters?: Document[] },
+  ): { doc: Document | null; before: Document | null } {
+    const doc = this._find(filter);
+    if (doc) {
+      // apply the update to a copy, so that a failing update leaves the document alone
+      const updated = clone(doc);
+      applyUpdate(updated, update, filter, false, options.arrayFilters);
+      this._documents[this._documents.indexOf(doc)] = updated;
+      return { doc: updated, before: doc };
+    }
+    if (!options.upsert) {
+      return { doc: null, before: null };
+    }
+    const inserted = upsertBase(filter);
+    applyUpdate(inserted, update, filter, true, options.arrayFilters);
+    if (inserted._id === undefined) {
+      inserted._id = new ObjectId();
+    }
+    if (this._documents.some((other) => equals(other.lockID, inserted.lockID))) {
+      throw new MongoServerError({
+        message: `E11000 duplicate key error collection: lockID dup key: { lockID: ${JSON.stringify(
+          inserted.lockID,
+        )} }`,
+        code: DuplicateKeyErrorCode,
+      });
+    }
+    this._documents.push(inserted);
+    return { doc: inserted, before: null };
+  }
+
+  /*
+   * Deletes the documents whose expiresAt has passed, if the collection has a TTL index.
+   */
+  _expire() {
+    if (!this._ttlIndex) {
+      return;
+    }
+    const now = new Date();
+    this._documents = this._documents.filter(
+      (doc) => !(doc.expiresAt instanceof Date && doc.expiresAt <= now),
+    );
+  }
+}
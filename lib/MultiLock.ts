@@ -0,0 +1,103 @@
+import { LockTimeoutError } from "./errors";
+import { AcquireOptions, MongoLockCollection, RWMutex, RWMutexOptions } from "./RWMutex";
+
+export interface LockRequest {
+  lockID: string;
+  mode: "read" | "write";
+}
+
+/*
+ * MultiLock acquires several locks as a unit: all of them or none. The locks are always acquired
+ * in the same order (sorted by lockID), so two clients acquiring overlapping sets of locks cannot
+ * deadlock by each waiting for a lock the other one holds.
+ */
+export class MultiLock {
+  _locks: { mutex: RWMutex; mode: "read" | "write" }[];
+  _held: { mutex: RWMutex; mode: "read" | "write" }[] = [];
+
+  /*
+   * Creates a new MultiLock
+   * @param {mongodb Collection} collection - the mongodb Collection where the locks are stored
+   * @param {Array} requests - the locks to acquire and whether to acquire each for writing or
+   * reading. A lock requested more than once is acquired once, for writing if any request asks
+   * for that
+   * @param {string} clientID - id corresponding to the client using these locks. Must be unique
+   * @param {Object} options - options for each of the locks
+   */
+  constructor(
+    coll: MongoLockCollection,
+    requests: LockRequest[],
+    clientID: string,
+    options: RWMutexOptions = { sleepTime: 1000, expiresAt: null },
+  ) {
+    const modes: { [lockID: string]: "read" | "write" } = {};
+    for (const request of requests) {
+      modes[request.lockID] = modes[request.lockID] === "write" ? "write" : request.mode;
+    }
+    this._locks = Object.keys(modes)
+      .sort()
+      .map((lockID) => ({
+        mutex: new RWMutex(coll, lockID, clientID, options),
+        mode: modes[lockID],
+      }));
+  }
+
+  /*
+   * Acquires every lock, in order. If any of them cannot be acquired, the ones acquired so far are
+   * released again.
+   * @param {Object} options - optional timeout and AbortSignal for giving up. The timeout covers
+   * acquiring all of the locks
+   * @return {Promise} - Resolves to the fencing tokens of the write locks, keyed by lockID, once
+   * every lock is acquired. Rejects like RWMutex.lock() with the error of the lock that could not
+   * be acquired
+   */
+  async lock(options: AcquireOptions = {}): Promise<{ [lockID: string]: number }> {
+    const deadline = options.timeoutMs != null ? Date.now() + options.timeoutMs : null;
+    const fencingTokens: { [lockID: string]: number } = {};
+    try {
+      for (const lock of this._locks) {
+        const lockOptions = { ...options };
+        if (deadline !== null) {
+          lockOptions.timeoutMs = Math.max(0, deadline - Date.now());
+        }
+        if (lock.mode === "write") {
+          fencingTokens[lock.mutex._lockID] = await lock.mutex.lock(lockOptions);
+        } else {
+          await lock.mutex.rLock(lockOptions);
+        }
+        this._held.push(lock);
+      }
+    } catch (err) {
+      // releasing is best effort: what is left held is freed once its lease runs out, if it has one
+      await this.unlock().catch(() => {});
+      if (err instanceof LockTimeoutError) {
+        // report the timeout for all of the locks, rather than what was left of it for this one
+        throw new LockTimeoutError(err.lockID, err.clientID, options.timeoutMs);
+      }
+      throw err;
+    }
+    return fencingTokens;
+  }
+
+  /*
+   * Releases every lock acquired by lock(), in the reverse order. Keeps releasing the other locks
+   * if releasing one of them fails.
+   * @return {Promise} - Resolves when the locks are released, rejects with the first error if
+   * releasing any of them failed
+   */
+  async unlock(): Promise<void> {
+    const held = this._held.reverse();
+    this._held = [];
+    let firstErr: unknown = null;
+    for (const lock of held) {
+      try {
+        await (lock.mode === "write" ? lock.mutex.unlock() : lock.mutex.rUnlock());
+      } catch (err) {
+        firstErr = firstErr || err;
+      }
+    }
+    if (firstErr) {
+      throw firstErr;
+    }
+  }
+}
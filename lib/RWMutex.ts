@@ -1,23 +1,217 @@
-import { MongoError, UpdateResult, DeleteResult, UpdateOptions } from "mongodb";
+import {
+  MongoError,
+  UpdateResult,
+  DeleteResult,
+  UpdateOptions,
+  FindOneAndUpdateOptions,
+} from "mongodb";
+import { hostname } from "os";
+import {
+  LockAcquireError,
+  LockNotHeldError,
+  LockOverrideConflictError,
+  LockOverrideError,
+  LockReentryError,
+  LockReleaseError,
+  LockScopeError,
+  LockTimeoutError,
+} from "./errors";
+import { LockHandle } from "./LockHandle";
+import { acquireWithRetry, anySignal, nextRetryDelay, timeoutPromise } from "./acquire";
+import { LockEvent, emitLockEvent } from "./events";
+import { LockSpan, LockTracer, SpanAttributes, endSpan, errorOutcome } from "./tracing";
+import { startHeartbeat } from "./heartbeat";
+import { LockChangeStream } from "./LockWatcher";
+import { RetryPolicy } from "./retry";
 
-// Helper function that converts setTimeout to a Promise
-function timeoutPromise(delay) {
-  return new Promise((resolve) => {
-    setTimeout(resolve, delay);
-  });
+export interface HolderLease {
+  clientID: string;
+  expiresAt: Date;
+}
+
+export interface HolderCount {
+  clientID: string;
+  // number of times the holder holds the lock
+  count: number;
+}
+
+export interface HolderMetadata {
+  clientID: string;
+  // where the holder runs
+  hostname: string;
+  pid: number;
+  // when the holder acquired the lock
+  acquiredAt: Date;
+  // the labels from the holder's holderMetadata option
+  labels: { [name: string]: string };
+}
+
+export interface QueueTicket {
+  clientID: string;
+  // whether the client is waiting for the write lock or a read lock
+  mode: "read" | "write";
+  // place in line. Tickets are numbered in the order they were handed out
+  ticket: number;
+  expiresAt: Date;
+}
+
+export interface EvictionRecord {
+  // the evicted client, or null if all holders were cleared
+  clientID: string | null;
+  // whether the client was evicted as the writer or as a reader, or null if all holders were cleared
+  mode: "read" | "write" | null;
+  reason: string | null;
+  at: Date;
+}
+
+export interface PermitHolder {
+  clientID: string;
+  // number of permits held
+  permits: number;
+  // when the holder's lease runs out, or null if it has none
+  expiresAt: Date | null;
 }
 
 export interface MongoLock {
   lockID: string;
   readers: string[];
   writer: string;
+  // latest lease of any holder, for use with a TTL index. Holders without a lease of their own
+  // expire with it
   expiresAt?: Date;
+  // lease of the current writer. Ignored if it names a client other than `writer`
+  writerLease?: HolderLease | null;
+  // leases of the current readers
+  readerLeases?: HolderLease[];
+  // who the current writer is, with holder metadata. Ignored if it names a client other than
+  // `writer`
+  writerMetadata?: HolderMetadata | null;
+  // who the current readers are, with holder metadata
+  readerMetadata?: HolderMetadata[];
+  // when the document was created, in ms since the epoch. Fencing tokens start from here
+  fencingEpoch?: number;
+  // number of times the write lock has been acquired or overridden since the document was created
+  fencingCounter?: number;
+  // number of times the writer holds the lock, with counted reentrancy
+  writerCount?: number;
+  // number of times each reader holds the lock, with counted reentrancy
+  readerCounts?: HolderCount[];
+  // writers waiting for the lock, with writer preference. New readers hold off while any of these
+  // have not expired
+  writerIntents?: HolderLease[];
+  // the last time an administrator cleared holders off the lock
+  lastEviction?: EvictionRecord;
+  // clients waiting for the lock, with fair queueing. Expired tickets are ignored
+  queue?: QueueTicket[];
+  // number of the last ticket handed out
+  nextTicket?: number;
+  // number of permits held, for a Semaphore
+  used?: number;
+  // clients holding permits, for a Semaphore
+  holders?: PermitHolder[];
+}
+
+export interface HeartbeatOptions {
+  // how far into the future each renewal pushes the holder's lease, in ms
+  leaseTime: number;
+  // how often the lease is renewed, in ms. Should be comfortably shorter than leaseTime
+  interval: number;
+  // called when a renewal fails or finds that the lock is no longer held by this client
+  onError?: (err: Error) => void;
+}
+
+export interface WriterPreferenceOptions {
+  // how long a waiting writer holds off new readers unless it renews its intent, in ms. The writer
+  // renews it on every attempt, so this should be comfortably longer than the time between attempts
+  intentTime: number;
+}
+
+export interface HolderMetadataOptions {
+  // free-form labels recorded along with the hostname and pid, e.g. the name of the job
+  labels?: { [name: string]: string };
+}
+
+export interface FairQueueOptions {
+  // how long a waiting client keeps its place in line unless it renews its ticket, in ms. The
+  // client renews it on every attempt, so this should be comfortably longer than the time between
+  // attempts
+  ticketTime: number;
+}
+
+export interface RWMutexOptions {
+  sleepTime: number;
+  expiresAt: Date | null;
+  heartbeat?: HeartbeatOptions | null;
+  // how to wait between acquire attempts. "poll" sleeps for sleepTime. "changeStream" also watches
+  // the collection's change stream and retries as soon as the lock may have been released, falling
+  // back to polling when change streams are unavailable
+  waitStrategy?: "poll" | "changeStream";
+  // how long to wait between attempts to acquire or override the lock. Defaults to waiting
+  // sleepTime every time
+  retryPolicy?: RetryPolicy;
+  // gives up with a LockAttemptsExceededError after this many attempts. Unlimited by default
+  maxAttempts?: number;
+  // what happens when a client acquires a lock it already holds. "reenter" (the default) succeeds
+  // and the first unlock releases the lock. "count" succeeds and keeps a count of holds on the lock
+  // document, releasing the lock once it has been unlocked as many times as it was acquired.
+  // "error" rejects with a LockReentryError
+  reentrancy?: "reenter" | "count" | "error";
+  // when set, a writer waiting for the lock keeps new readers from acquiring it until the writer
+  // has acquired and released it. Must be set on readers as well as writers
+  writerPreference?: WriterPreferenceOptions | null;
+  // when set, clients waiting for the lock line up and acquire it in the order they started
+  // waiting, a run of readers at the front of the line sharing it. Must be set on every client
+  fairQueue?: FairQueueOptions | null;
+  // when set, holders record their hostname, pid, when they acquired the lock and the given labels
+  // on the lock document, so that it can be told who holds a stuck lock. Removed on release
+  holderMetadata?: HolderMetadataOptions | null;
+  // called with an event whenever an attempt to acquire the lock fails, and when the lock is
+  // acquired, released, overridden or found to have expired. Errors thrown by it are ignored
+  onEvent?: (event: LockEvent) => void;
+  // when set, acquiring, releasing and overriding the lock each produce a span, and so does
+  // holding the lock, from acquiring it to releasing it
+  tracer?: LockTracer | null;
+  // aborts every acquisition of the lock, along with the signal passed to each call. LockClient
+  // uses it to give up on acquiring its locks when shutting down
+  signal?: AbortSignal | null;
+}
+
+export interface AcquireOptions {
+  // how long to keep trying to acquire the lock before rejecting with a LockTimeoutError, in ms.
+  // At least one attempt is always made
+  timeoutMs?: number;
+  // rejects with a LockAbortedError and stops retrying once aborted
+  signal?: AbortSignal;
+}
+
+export interface UpgradeOptions extends AcquireOptions {
+  // when other readers hold the lock, keep new readers out and wait for the others to release it,
+  // instead of giving up right away
+  wait?: boolean;
+}
+
+export interface LockState {
+  lockID: string;
+  // the client holding the write lock, if any
+  writer: string | null;
+  // the clients holding a read lock
+  readers: string[];
+  // when the lock document expires, if it has a TTL
+  expiresAt: Date | null;
+  // "write" while a writer holds the lock, "read" while only readers do
+  mode: "write" | "read" | "unlocked";
 }
 
 export interface MongoLockCollection {
   findOne: (filter: any) => Promise<MongoLock | null>;
   deleteOne: (filter: any) => Promise<DeleteResult>;
   updateOne: (filter: any, update: any, opts?: UpdateOptions) => Promise<UpdateResult<MongoLock>>;
+  findOneAndUpdate: (
+    filter: any,
+    update: any,
+    opts: FindOneAndUpdateOptions,
+  ) => Promise<MongoLock | null>;
+  watch?: (pipeline?: any[], options?: any) => LockChangeStream;
 }
 
 export const emptyReadersQuery = {
@@ -50,21 +244,120 @@ export const emptyWriterQuery = {
 
 export const DuplicateKeyErrorCode = 11000;
 
+/*
+ * Returns the fencing token issued by the latest acquisition of a lock's write lock. Tokens
+ * increase with every acquisition. Since the counter starts over when the lock document is deleted
+ * and recreated, tokens are offset by the time the document was created, which keeps them
+ * increasing as long as the clocks of the clients creating the document roughly agree.
+ */
+export function fencingToken(mongoLock: MongoLock): number {
+  return (mongoLock.fencingEpoch || 0) + (mongoLock.fencingCounter || 0);
+}
+
+/*
+ * Returns the holders of a lock whose leases have run out. A holder without a lease of its own
+ * expires with the lock document's expiresAt, if there is one.
+ */
+export function expiredHolders(
+  mongoLock: MongoLock,
+  now: Date = new Date(),
+): { writer: string | null; readers: string[] } {
+  const docExpired = !!mongoLock.expiresAt && mongoLock.expiresAt <= now;
+  let writer = null;
+  if (mongoLock.writer) {
+    const lease = mongoLock.writerLease;
+    const ownLease = lease && lease.clientID === mongoLock.writer;
+    if (ownLease ? lease.expiresAt <= now : docExpired) {
+      writer = mongoLock.writer;
+    }
+  }
+  const readers = (mongoLock.readers || []).filter((reader) => {
+    const lease = readerLease(mongoLock, reader);
+    return lease ? lease.expiresAt <= now : docExpired;
+  });
+  return { writer, readers };
+}
+
+/*
+ * Returns the lease of one of a lock's readers, or undefined if it has none.
+ */
+function readerLease(mongoLock: MongoLock, reader: string): HolderLease | undefined {
+  return (mongoLock.readerLeases || []).find((lease) => lease.clientID === reader);
+}
+
+/*
+ * Returns who holds a lock, normalizing the different ways a lock document can record that nobody
+ * holds it. Holders whose leases have run out are left out, since any waiting client may clear them.
+ * @param {string} lockID - id of the lock
+ * @param {Object} mongoLock - the lock document, or null if there is none
+ * @param {Date} now - the time to check leases against
+ */
+export function lockState(
+  lockID: string,
+  mongoLock: MongoLock | null,
+  now: Date = new Date(),
+): LockState {
+  if (!mongoLock) {
+    return { lockID, writer: null, readers: [], expiresAt: null, mode: "unlocked" };
+  }
+  const expired = expiredHolders(mongoLock, now);
+  const writer = mongoLock.writer && mongoLock.writer !== expired.writer ? mongoLock.writer : null;
+  const readers = (mongoLock.readers || []).filter((reader) => !expired.readers.includes(reader));
+  let mode: LockState["mode"] = "unlocked";
+  if (writer) {
+    mode = "write";
+  } else if (readers.length > 0) {
+    mode = "read";
+  }
+  return { lockID, writer, readers, expiresAt: mongoLock.expiresAt || null, mode };
+}
+
+/*
+ * Lists the locks stored in a collection, for dashboards and debugging.
+ * @param {mongodb Collection} collection - the collection the locks are stored in
+ * @param {Object} filter - a mongodb filter selecting the lock documents to list. Lists all of them
+ * by default
+ * @return {Promise} - Resolves to the state of each lock, see lockState
+ */
+export async function listLocks(
+  coll: { find: (filter: any) => { toArray: () => Promise<MongoLock[]> } },
+  filter: any = {},
+): Promise<LockState[]> {
+  const now = new Date();
+  const mongoLocks = await coll.find(filter).toArray();
+  return mongoLocks.map((mongoLock) => lockState(mongoLock.lockID, mongoLock, now));
+}
+
 /*
  * RWMutex implements a distributed reader/writer lock backed by mongodb. Right now it is limited
  * in a few key ways:
- * 1. Re-enterable locks. RWMutex treats a clientID already existing on the lock in the db as a
- *    lock that this client owns. It re-enters the lock and proceeds as if you have the lock.
- * 2. No heartbeat. Our current requirements for this project do not include heartbeats, so any
- *    client that does not call unlock will remain on the lock forever.
- * 3. Manual setup. This library does not currently support setup. The collection you pass to the
- *    constructor must have a unique index on the `lockID` field.
+ * 1. Re-enterable locks. By default RWMutex treats a clientID already existing on the lock in the
+ *    db as a lock that this client owns. It re-enters the lock and proceeds as if you have the
+ *    lock, and the first unlock releases it. Set `reentrancy` to count holds or reject re-entry.
+ * 2. Opt-in leases. Unless `heartbeat` or `expiresAt` is set in the options, any client that
+ *    does not call unlock will remain on the lock forever. With either set, every holder carries
+ *    its own lease on the lock document, and holders whose lease has run out are cleared by
+ *    clients waiting for the lock. With `heartbeat` set, the lease is pushed forward every
+ *    `interval` ms for as long as the lock is held.
+ * 3. Setup. The collection you pass to the constructor must have a unique index on the `lockID`
+ *    field, and a TTL index on `expiresAt` if leases are used. ensureLockCollection creates them.
  */
 export class RWMutex {
   _coll: MongoLockCollection;
   _lockID: string;
   _clientID: string;
-  _options: { sleepTime: number, expiresAt: Date | null};
+  _options: RWMutexOptions;
+  _heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  // number of this instance's ticket while it waits in line for the lock, with fair queueing
+  _ticket: number | null = null;
+  // when this instance acquired the write lock and a read lock, for reporting how long it held them
+  _heldSince: { read: number | null; write: number | null } = { read: null, write: null };
+  // spans covering this instance holding the write lock and a read lock, when tracing
+  _holdSpans: { read: LockSpan | null; write: LockSpan | null } = { read: null, write: null };
+  // aborted when the LockClient that created this instance shuts down, if any
+  _shutdownSignal: AbortSignal | null = null;
+  // fencing token of the write lock held by this instance, if any
+  fencingToken: number | null = null;
 
   /*
    * Creates a new RWMutex
@@ -77,7 +370,7 @@ export class RWMutex {
     coll: MongoLockCollection,
     lockID: string,
     clientID: string,
-    options = { sleepTime: 1000, expiresAt: null},
+    options: RWMutexOptions = { sleepTime: 1000, expiresAt: null },
   ) {
     this._coll = coll;
     this._lockID = lockID;
@@ -87,63 +380,62 @@ export class RWMutex {
 
   /*
    * Acquires the write lock.
-   * @return {Promise} - Promise that resolves when the lock is acquired, rejects if an error occurs
-   */
-  async lock(): Promise<void> {
-    // Loop and do the following:
-    // 1. attempt to acquire the lock (must have no readers and no writer)
-    // 2. if not acquired, sleep and retry
-    let acquired = false;
-    while (!acquired) {
-      try {
-        // If no such lock exists, this will create it
-        // If a lock exists with this lockID with no readers and no writer, this will update it
-        // If a lock exists with this lockID with clientID as the writer and no readers,
-        // this will do nothing
-        // If a lock exists with this lockID with a different clientID as the writer or readers,
-        // this will throw an error which will be caught.  We will then retry.
-        const writerQuery = JSON.parse(JSON.stringify(emptyWriterQuery));
-        writerQuery["$or"].push({ writer: this._clientID });
-        const update = {
-          $set: {
-            writer: this._clientID,
-            readers: [],
-          },
-        };
-        if (this._options.expiresAt) {
-          update["$setOnInsert"] = { expiresAt: this._options.expiresAt };
-        }
-        const result = await this._coll.updateOne(
-          {
-            lockID: this._lockID,
-            $and: [emptyReadersQuery, writerQuery],
-          },
-          update,
-          { upsert: true },
-        );
-        if (result.matchedCount > 0 || result.upsertedCount > 0) {
-          acquired = true;
-          return;
-        }
-      } catch (err) {
-        if (!(err instanceof MongoError) || err.code !== DuplicateKeyErrorCode) {
-          let errMsg = `error acquiring lock ${this._lockID}`;
-          if (err instanceof Error) {
-            errMsg += `: ${err.message}`;
-          }
-          throw new Error(errMsg);
-        }
-      }
+   * @param {Object} options - optional timeout and AbortSignal for giving up on the lock
+   * @return {Promise} - Promise that resolves to the lock's new fencing token when the lock is
+   * acquired, rejects if an error occurs, the timeout passes or the signal is aborted
+   */
+  async lock(options: AcquireOptions = {}): Promise<number> {
+    const start = Date.now();
+    const span = this._startSpan("acquire", "write");
+    let attempts: number;
+    try {
+      attempts = await this._acquireInLine("write", () => this._attemptLock(), options, span);
+    } catch (err) {
+      throw this._failed("write", err, span);
+    }
+    this._startHeartbeat("write");
+    this._acquired("write", start, attempts, span);
+    return this.fencingToken;
+  }
 
-      await timeoutPromise(this._options.sleepTime);
+  /*
+   * Makes a single attempt at acquiring the write lock. Holders whose leases have run out do not
+   * count, so if the attempt finds any they are cleared and the attempt is made once more. On
+   * success the lock's new fencing token is available as `fencingToken`.
+   * @return {Promise} - Resolves to true if the lock was acquired and false if it is held by
+   * another client, rejects if an error occurs
+   */
+  async tryLock(): Promise<boolean> {
+    const start = Date.now();
+    const span = this._startSpan("acquire", "write");
+    let acquired: boolean;
+    try {
+      acquired = await this._attemptOnce(() => this._attemptLock());
+    } catch (err) {
+      throw this._failed("write", err, span);
     }
+    if (acquired) {
+      this._startHeartbeat("write");
+      this._acquired("write", start, 1, span);
+    } else {
+      endSpan(span, "busy");
+    }
+    return acquired;
   }
 
   /*
-   * Unlocks the write lock. Must have the same lock type
+   * Unlocks the write lock. Must have the same lock type. With counted reentrancy, the lock is only
+   * released once it has been unlocked as many times as it was acquired
    * @return {Promise} - Resolves when lock is released, rejects if an error occurs
    */
   async unlock(): Promise<void> {
+    const span = this._startSpan("release", "write");
+    if (await this._releaseHold("write", span)) {
+      endSpan(span, "still_held");
+      return;
+    }
+    this._stopHeartbeat();
+    this.fencingToken = null;
     let result;
     try {
       // delete lock if this is the only holder
@@ -151,45 +443,70 @@ export class RWMutex {
         lockID: this._lockID,
         writer: this._clientID,
         $or: emptyReadersQuery["$or"],
+        ...this._emptyQueueQuery(),
       });
       if (deleteResult.deletedCount > 0) {
+        this._released("write", span);
         return;
       }
 
       // otherwise, remove the clientID from the writer field
+      const update = {
+        $set: {
+          writer: "",
+        },
+      };
+      if (this._usesLeases()) {
+        update["$unset"] = { writerLease: "" };
+      }
+      if (this._options.reentrancy === "count") {
+        update["$unset"] = { ...update["$unset"], writerCount: "" };
+      }
+      if (this._options.holderMetadata) {
+        update["$unset"] = { ...update["$unset"], writerMetadata: "" };
+      }
       result = await this._coll.updateOne(
         {
           lockID: this._lockID,
           writer: this._clientID,
         },
-        {
-          $set: {
-            writer: "",
-          },
-        },
+        update,
       );
     } catch (err) {
-      let errMsg = `error releasing lock ${this._lockID}`;
-      if (err instanceof Error) {
-        errMsg += `: ${err.message}`;
-      }
-      throw new Error(errMsg);
+      const releaseErr = new LockReleaseError(this._lockID, this._clientID, err);
+      throw this._failed("write", releaseErr, span);
     }
     if (result.matchedCount === 0) {
-      throw new Error(`lock ${this._lockID} not currently held by client: ${this._clientID}`);
+      throw this._failed("write", new LockNotHeldError(this._lockID, this._clientID), span);
     }
+    this._released("write", span);
     return;
   }
 
-  overrideWriterSwitchedError = "lock already held by another writer";
   /**
    * overrideLockWriter is a method that will override the current writer of the lock with the
    * clientID of the current instance of the RWMutex.
    * @param upsert determines whether or not to create a new lock if one does not exist
-   * @returns void
+   * @returns the lock's new fencing token. Rejects with a LockOverrideConflictError if another
+   * writer took the lock in the meantime
+   */
+  async tryOverrideLockWriter(oldWriter: string, upsert = false): Promise<number> {
+    const span = this._startSpan("override", "write");
+    let token: number;
+    try {
+      token = await this._overrideLockWriter(oldWriter, upsert);
+    } catch (err) {
+      throw this._failed("override", err, span);
+    }
+    endSpan(span, "overridden");
+    return token;
+  }
+
+  /*
+   * Overrides the writer of the lock, see tryOverrideLockWriter. Failures are left to the caller to
+   * report, since a conflict is only a failed attempt when retrying.
    */
-  async tryOverrideLockWriter(oldWriter: string, upsert = false): Promise<void> {
-    let errMsg = `error overriding lock ${this._lockID}`;
+  async _overrideLockWriter(oldWriter: string, upsert: boolean): Promise<number> {
     const writerQuery = JSON.parse(JSON.stringify(emptyWriterQuery));
     writerQuery["$or"].push({ writer: oldWriter });
     const update = {
@@ -198,39 +515,48 @@ export class RWMutex {
       },
       $setOnInsert: {
         readers: [],
+        fencingEpoch: Date.now(),
+      },
+      $inc: {
+        fencingCounter: 1,
       },
     };
-    if (this._options.expiresAt) {
-      update["$setOnInsert"]["expiresAt"] = this._options.expiresAt;
+    if (this._options.reentrancy === "count") {
+      update.$set["writerCount"] = 1;
     }
+    this._addLease(update, "write");
+    this._addMetadata(update, "write");
     try { 
-      const result = await this._coll.updateOne(
+      const mongoLock = await this._coll.findOneAndUpdate(
         {
           lockID: this._lockID,
           $or: writerQuery["$or"],
         },
         update,
-        { upsert: upsert },
+        { upsert: upsert, returnDocument: "after" },
       );
-      if (result.matchedCount > 0 || result.upsertedCount > 0) {
-        return;
+      if (mongoLock) {
+        this.fencingToken = fencingToken(mongoLock);
+        this._startHeartbeat("write");
+        this._startHolding("write");
+        this._emit({
+          type: "overridden",
+          lockID: this._lockID,
+          clientID: this._clientID,
+          oldWriter,
+        });
+        return this.fencingToken;
       }
     } catch (err: unknown) {
       if (err instanceof MongoError && err.code === DuplicateKeyErrorCode) { 
-        errMsg += ": " + this.overrideWriterSwitchedError;
-        throw new Error(errMsg);
-      }
-      if (err instanceof Error) {
-        errMsg += `: ${err.message}`;
+        throw new LockOverrideConflictError(this._lockID, this._clientID, err);
       }
-      throw new Error(errMsg);
+      throw new LockOverrideError(this._lockID, this._clientID, null, err);
     }
     if (!upsert) {
-      errMsg += ": lock not found";
-      throw new Error(errMsg);
+      throw new LockOverrideError(this._lockID, this._clientID, "lock not found");
     }
-    errMsg += ": lock not found, upsert failed";
-    throw new Error(errMsg);
+    throw new LockOverrideError(this._lockID, this._clientID, "lock not found, upsert failed");
   }
 
   /**
@@ -239,112 +565,125 @@ export class RWMutex {
    * @param conditional returns a boolean value based on some comparison of the current lockID in the database and
    * the lockID of the current instance of the RWMutex
    * @param upsert determines whether or not to create a new lock if one does not exist
-   * @returns boolean value based on whether or not we overrode the lock
+   * @returns boolean value based on whether or not we overrode the lock. If we did, the lock's new
+   * fencing token is available as `fencingToken`
    */
   async conditionalOverrideLockWriter(
     conditional: (oldWriter: string, newWriter: string) => Promise<boolean>,
     upsert = true, timeout = 10000): Promise<boolean> { 
     const start = Date.now();
+    const span = this._startSpan("override", "write");
+    let attempts = 0;
+    let delay = 0;
+    // counts a conflicting attempt, and works out how long to wait before the next one. Fails the
+    // override once maxAttempts attempts have been made
+    const attemptFailed = () => {
+      this._attemptFailed("override", ++attempts, span);
+      try {
+        delay = nextRetryDelay(this, attempts, delay);
+      } catch (err) {
+        throw this._failed("override", err, span);
+      }
+    };
     
     while (Date.now() - start < timeout) {
       const mongoLock = await this._coll.findOne({ lockID: this._lockID });
       if (!mongoLock) {
         if (!upsert) {
+          endSpan(span, "not_found");
           return false;
         }
         try {
-          await this.tryOverrideLockWriter("", upsert);
+          await this._overrideLockWriter("", upsert);
+          endSpan(span, "overridden");
           return true;
         } catch (err) {
-          if (err instanceof Error) {
-            if (err.message.includes(this.overrideWriterSwitchedError)) { 
-              await timeoutPromise(this._options.sleepTime);
-              continue;
-            }
+          if (err instanceof LockOverrideConflictError) {
+            attemptFailed();
+            await timeoutPromise(delay);
+            continue;
           }
-          throw err;
+          throw this._failed("override", err, span);
         }
       }
       const conditionalResult = await conditional(mongoLock.writer, this._clientID);
       if (conditionalResult) {
         try {
-          await this.tryOverrideLockWriter(mongoLock.writer, upsert);
+          await this._overrideLockWriter(mongoLock.writer, upsert);
+          endSpan(span, "overridden");
           return true;
         } catch (err) {
-          if (err instanceof Error) {
-            if (err.message.includes(this.overrideWriterSwitchedError)) { 
-              await timeoutPromise(this._options.sleepTime);
-              continue;
-            }
+          if (err instanceof LockOverrideConflictError) {
+            attemptFailed();
+            await timeoutPromise(delay);
+            continue;
           }
-          throw err;
+          throw this._failed("override", err, span);
         }
       } else { 
+        endSpan(span, "declined");
         return false
       }
     }
-    throw new Error("timeout for overriding lock writer exceeded");
+    const timeoutErr = new LockTimeoutError(this._lockID, this._clientID, timeout);
+    throw this._failed("override", timeoutErr, span);
 }
 
   /*
    * Acquires the read lock.
-   * @return {Promise} - Resolves when the lock is acquired, rejects if an error occurs
-   */
-  async rLock(): Promise<void> {
-    // Loop and do the following:
-    // 1. attempt to acquire the lock (must have no writer)
-    // 2. if not acquired, sleep and retry
-    let acquired = false;
-    while (!acquired) {
-      // Acquire the lock
-      try {
-        // If no such lock exists, this will create it
-        // If a lock exists with this lockID with no writer, this will update it to add the clientID
-        // to the readers list
-        // If a lock exists with this lockID with a writer, this will throw an error which will be
-        // caught.  We will then retry.
-        const update = {
-          $set: {
-            writer: "",
-          },
-          $addToSet: {
-            readers: this._clientID,
-          },
-        };
-        if (this._options.expiresAt) {
-          update["$setOnInsert"] = { expiresAt: this._options.expiresAt };
-        }
-        const result = await this._coll.updateOne(
-          {
-            lockID: this._lockID,
-            $or: emptyWriterQuery["$or"],
-          },
-          update,
-          { upsert: true },
-        );
-        if (result.matchedCount > 0 || result.upsertedCount > 0) {
-          acquired = true;
-          return;
-        }
-      } catch (err) {
-        if (!(err instanceof MongoError) || err.code !== DuplicateKeyErrorCode) {
-          let errMsg = `error acquiring lock ${this._lockID}`;
-          if (err instanceof Error) {
-            errMsg += `: ${err.message}`;
-          }
-          throw new Error(errMsg);
-        }
-      }
+   * @param {Object} options - optional timeout and AbortSignal for giving up on the lock
+   * @return {Promise} - Resolves when the lock is acquired, rejects if an error occurs, the timeout
+   * passes or the signal is aborted
+   */
+  async rLock(options: AcquireOptions = {}): Promise<void> {
+    const start = Date.now();
+    const span = this._startSpan("acquire", "read");
+    let attempts: number;
+    try {
+      attempts = await this._acquireInLine("read", () => this._attemptRLock(), options, span);
+    } catch (err) {
+      throw this._failed("read", err, span);
+    }
+    this._startHeartbeat("read");
+    this._acquired("read", start, attempts, span);
+  }
 
-      await timeoutPromise(this._options.sleepTime);
+  /*
+   * Makes a single attempt at acquiring the read lock. Holders whose leases have run out do not
+   * count, see tryLock.
+   * @return {Promise} - Resolves to true if the lock was acquired and false if another client holds
+   * the write lock, rejects if an error occurs
+   */
+  async tryRLock(): Promise<boolean> {
+    const start = Date.now();
+    const span = this._startSpan("acquire", "read");
+    let acquired: boolean;
+    try {
+      acquired = await this._attemptOnce(() => this._attemptRLock());
+    } catch (err) {
+      throw this._failed("read", err, span);
+    }
+    if (acquired) {
+      this._startHeartbeat("read");
+      this._acquired("read", start, 1, span);
+    } else {
+      endSpan(span, "busy");
     }
+    return acquired;
   }
 
   /*
-   * Unlocks the read lock. Must have the same lock type
+   * Unlocks the read lock. Must have the same lock type. With counted reentrancy, the lock is only
+   * released once it has been unlocked as many times as it was acquired
    * @return {Promise} - Resolves when lock is released, rejects if an error occurs
    */
   async rUnlock(): Promise<void> {
+    const span = this._startSpan("release", "read");
+    if (await this._releaseHold("read", span)) {
+      endSpan(span, "still_held");
+      return;
+    }
+    this._stopHeartbeat();
     let result;
     try {
       // delete lock if this is the only holder
@@ -352,33 +691,1211 @@ export class RWMutex {
         lockID: this._lockID,
         $or: emptyWriterQuery["$or"],
         readers: { $size: 1, $all: [this._clientID] },
+        ...this._emptyQueueQuery(),
       });
       if (deleteResult.deletedCount > 0) {
+        this._released("read", span);
         return;
       }
 
       // otherwise, remove the clientID from the readers list
+      const update = {
+        $pull: {
+          readers: this._clientID,
+        },
+      };
+      const holder = { clientID: this._clientID };
+      if (this._usesLeases()) {
+        update.$pull["readerLeases"] = holder;
+      }
+      if (this._options.reentrancy === "count") {
+        update.$pull["readerCounts"] = holder;
+      }
+      if (this._options.holderMetadata) {
+        update.$pull["readerMetadata"] = holder;
+      }
       result = await this._coll.updateOne(
         {
           lockID: this._lockID,
           readers: this._clientID,
         },
-        {
-          $pull: {
-            readers: this._clientID,
-          },
-        },
+        update,
       );
     } catch (err) {
-      let errMsg = `error releasing lock ${this._lockID}`;
-      if (err instanceof Error) {
-        errMsg += `: ${err.message}`;
-      }
-      throw new Error(errMsg);
+      const releaseErr = new LockReleaseError(this._lockID, this._clientID, err);
+      throw this._failed("read", releaseErr, span);
     }
     if (result.matchedCount === 0) {
-      throw new Error(`lock ${this._lockID} not currently held by client: ${this._clientID}`);
+      throw this._failed("read", new LockNotHeldError(this._lockID, this._clientID), span);
     }
+    this._released("read", span);
     return;
   }
+
+  /*
+   * Converts the read lock held by this client into the write lock, without releasing it in
+   * between. This only succeeds while this client is the only reader. With counted reentrancy, all
+   * of this client's holds on the read lock become a single hold on the write lock.
+   * @param {Object} options - whether to wait for other readers to release the lock, and an
+   * optional timeout and AbortSignal for giving up on waiting
+   * @return {Promise} - Resolves to true once the lock is upgraded, in which case its new fencing
+   * token is available as `fencingToken`. Resolves to false, still holding the read lock, if other
+   * readers hold it and `wait` is not set, or another reader or writer is converting or overriding
+   * the lock. Rejects with a LockNotHeldError if this client does not hold the read lock, and like
+   * lock() if an error occurs, the timeout passes or the signal is aborted
+   */
+  async upgrade(options: UpgradeOptions = {}): Promise<boolean> {
+    const start = Date.now();
+    const span = this._startSpan("acquire", "write");
+    let attempts = 1;
+    let outcome: "upgraded" | "waiting" | "lost";
+    const attempt = async () => {
+      outcome = await this._attemptUpgrade();
+      return outcome !== "waiting";
+    };
+    try {
+      if (options.wait) {
+        try {
+          attempts = await this._acquire("write", attempt, options, span);
+        } catch (err) {
+          await this._cancelUpgrade().catch(() => {});
+          throw err;
+        }
+      } else {
+        await attempt();
+      }
+      if (outcome === "waiting") {
+        await this._cancelUpgrade();
+      }
+    } catch (err) {
+      // not holding the read lock is about the read lock rather than the write lock
+      throw this._failed(err instanceof LockNotHeldError ? "read" : "write", err, span);
+    }
+    if (outcome !== "upgraded") {
+      endSpan(span, outcome === "lost" ? "lost" : "busy");
+      return false;
+    }
+    this._startHeartbeat("write");
+    this._released("read");
+    this._acquired("write", start, attempts, span);
+    return true;
+  }
+
+  /*
+   * Converts the write lock held by this client into a read lock in a single update, so that no
+   * other writer can take the lock in between. Other readers can acquire the lock right away. With
+   * counted reentrancy, all of this client's holds on the write lock become a single hold on the
+   * read lock.
+   * @return {Promise} - Resolves when the lock is converted, rejects with a LockNotHeldError if
+   * this client does not hold the write lock, and with a LockReleaseError if an error occurs
+   */
+  async downgrade(): Promise<void> {
+    const update = {
+      $set: {
+        writer: "",
+      },
+      $addToSet: {
+        readers: this._clientID,
+      },
+    };
+    if (this._usesLeases()) {
+      update["$unset"] = { writerLease: "" };
+    }
+    if (this._options.reentrancy === "count") {
+      update["$push"] = { readerCounts: { clientID: this._clientID, count: 1 } };
+      update["$unset"] = { ...update["$unset"], writerCount: "" };
+    }
+    if (this._options.holderMetadata) {
+      update["$unset"] = { ...update["$unset"], writerMetadata: "" };
+    }
+    this._addLease(update, "read");
+    this._addMetadata(update, "read");
+    let result;
+    try {
+      result = await this._coll.updateOne({ lockID: this._lockID, writer: this._clientID }, update);
+    } catch (err) {
+      throw this._failed("write", new LockReleaseError(this._lockID, this._clientID, err));
+    }
+    if (result.matchedCount === 0) {
+      throw this._failed("write", new LockNotHeldError(this._lockID, this._clientID));
+    }
+    this.fencingToken = null;
+    this._startHeartbeat("read");
+    this._released("write");
+    this._acquired("read", Date.now(), 1);
+  }
+
+  /*
+   * Looks up who holds the lock, without changing anything.
+   * @return {Promise} - Resolves to the state of the lock, see lockState
+   */
+  async getState(): Promise<LockState> {
+    return lockState(this._lockID, await this._coll.findOne({ lockID: this._lockID }));
+  }
+
+  /*
+   * Looks up whether a client holds the lock, without changing anything.
+   * @param {string} clientID - the client to look for. Defaults to this client
+   * @param {string} mode - only counts the write lock or a read lock if given
+   * @return {Promise} - Resolves to whether the client holds the lock
+   */
+  async isHeldBy(clientID: string = this._clientID, mode?: "read" | "write"): Promise<boolean> {
+    const state = await this.getState();
+    const writing = state.writer === clientID;
+    const reading = state.readers.includes(clientID);
+    if (mode === "write") {
+      return writing;
+    }
+    if (mode === "read") {
+      return reading;
+    }
+    return writing || reading;
+  }
+
+  /*
+   * Acquires the write lock, runs a callback and releases the lock again, even if the callback
+   * fails.
+   * @param {Function} fn - called with the lock's fencing token once the lock is acquired
+   * @param {Object} options - optional timeout and AbortSignal for giving up on the lock
+   * @return {Promise} - Resolves to the callback's result once the lock is released. Rejects with
+   * the callback's error if it fails, with the release error if releasing fails, and with a
+   * LockScopeError carrying both if both fail
+   */
+  async withLock<T>(
+    fn: (fencingToken: number) => T | Promise<T>,
+    options: AcquireOptions = {},
+  ): Promise<T> {
+    const token = await this.lock(options);
+    return this._runHolding(
+      () => fn(token),
+      () => this.unlock(),
+    );
+  }
+
+  /*
+   * Acquires the read lock, runs a callback and releases the lock again, even if the callback
+   * fails.
+   * @param {Function} fn - called once the lock is acquired
+   * @param {Object} options - optional timeout and AbortSignal for giving up on the lock
+   * @return {Promise} - Resolves to the callback's result once the lock is released. Rejects with
+   * the callback's error if it fails, with the release error if releasing fails, and with a
+   * LockScopeError carrying both if both fail
+   */
+  async withRLock<T>(fn: () => T | Promise<T>, options: AcquireOptions = {}): Promise<T> {
+    await this.rLock(options);
+    return this._runHolding(fn, () => this.rUnlock());
+  }
+
+  /*
+   * Acquires the write lock and returns a handle that releases it when disposed of, for use with
+   * `await using`.
+   * @param {Object} options - optional timeout and AbortSignal for giving up on the lock
+   * @return {Promise} - Resolves to the handle when the lock is acquired, rejects like lock()
+   */
+  async lockHandle(options: AcquireOptions = {}): Promise<LockHandle> {
+    const token = await this.lock(options);
+    return new LockHandle(() => this.unlock(), token);
+  }
+
+  /*
+   * Acquires the read lock and returns a handle that releases it when disposed of, for use with
+   * `await using`.
+   * @param {Object} options - optional timeout and AbortSignal for giving up on the lock
+   * @return {Promise} - Resolves to the handle when the lock is acquired, rejects like rLock()
+   */
+  async rLockHandle(options: AcquireOptions = {}): Promise<LockHandle> {
+    await this.rLock(options);
+    return new LockHandle(() => this.rUnlock());
+  }
+
+  /*
+   * Runs a callback while holding the lock and releases the lock afterwards.
+   * @param {Function} fn - the callback
+   * @param {Function} release - releases the lock
+   */
+  async _runHolding<T>(fn: () => T | Promise<T>, release: () => Promise<void>): Promise<T> {
+    let result: T;
+    try {
+      result = await fn();
+    } catch (err) {
+      try {
+        await release();
+      } catch (releaseErr) {
+        throw new LockScopeError(this._lockID, this._clientID, err, releaseErr);
+      }
+      throw err;
+    }
+    await release();
+    return result;
+  }
+
+  /*
+   * Retries an acquire attempt until it succeeds like _acquire. Unless the lock is acquired right
+   * away, the client lets others know it is waiting: with writer preference a waiting writer holds
+   * off new readers, and with fair queueing the client takes a place in line. It drops out again if
+   * it gives up on the lock.
+   * @param {string} mode - whether the write lock or a read lock is being acquired
+   * @param {Function} attempt - makes one attempt at acquiring the lock, resolves to whether it did
+   * @param {Object} options - optional timeout and AbortSignal for giving up on the lock
+   * @param {Object} span - the span of acquiring the lock, when tracing
+   * @return {Promise} - Resolves to the number of attempts it took once the lock is acquired
+   */
+  async _acquireInLine(
+    mode: "read" | "write",
+    attempt: () => Promise<boolean>,
+    options: AcquireOptions,
+    span: LockSpan | null = null,
+  ): Promise<number> {
+    const preferWriter = mode === "write" && !!this._options.writerPreference;
+    const fairQueue = !!this._options.fairQueue;
+    if (!preferWriter && !fairQueue) {
+      return this._acquire(mode, attempt, options, span);
+    }
+
+    const attemptInLine = async () => {
+      if (await attempt()) {
+        return true;
+      }
+      if (preferWriter) {
+        await this._registerWriterIntent();
+      }
+      if (fairQueue) {
+        await this._joinQueue(mode);
+      }
+      return false;
+    };
+    try {
+      return await this._acquire(mode, attemptInLine, options, span);
+    } catch (err) {
+      if (preferWriter) {
+        await this._withdrawWriterIntent().catch(() => {});
+      }
+      if (fairQueue) {
+        await this._leaveQueue().catch(() => {});
+      }
+      throw err;
+    }
+  }
+
+  /*
+   * Retries an acquire attempt until it succeeds, see acquireWithRetry.
+   * @param {string} mode - whether the write lock or a read lock is being acquired
+   * @param {Function} attempt - makes one attempt at acquiring the lock, resolves to whether it did
+   * @param {Object} options - optional timeout and AbortSignal for giving up on the lock
+   * @param {Object} span - the span of acquiring the lock, when tracing
+   * @return {Promise} - Resolves to the number of attempts it took once the lock is acquired
+   */
+  async _acquire(
+    mode: "read" | "write",
+    attempt: () => Promise<boolean>,
+    options: AcquireOptions,
+    span: LockSpan | null = null,
+  ): Promise<number> {
+    const { signal, dispose } = anySignal([
+      options.signal,
+      this._options.signal,
+      this._shutdownSignal,
+    ]);
+    try {
+      return await acquireWithRetry(this, attempt, {
+        ...options,
+        signal,
+        onAttemptFailed: (attempts) => this._attemptFailed(mode, attempts, span),
+      });
+    } finally {
+      dispose();
+    }
+  }
+
+  /*
+   * Makes one attempt at acquiring the write lock (must have no readers and no writer). Every
+   * acquisition, including re-entering the lock, bumps the lock's fencing token.
+   * @return {Promise} - Resolves to whether the lock was acquired, rejects if an error occurs
+   */
+  async _attemptLock(): Promise<boolean> {
+    const reentrancy = this._options.reentrancy || "reenter";
+    if (reentrancy === "count" && (await this._reenter("write"))) {
+      return true;
+    }
+    try {
+      // If no such lock exists, this will create it
+      // If a lock exists with this lockID with no readers and no writer, this will update it
+      // If a lock exists with this lockID with clientID as the writer and no readers,
+      // this will do nothing
+      // (unless re-entering is counted or an error, in which case that has been handled already)
+      // If a lock exists with this lockID with a different clientID as the writer or readers,
+      // this will throw an error which will be caught.  We will then retry.
+      const writerQuery = JSON.parse(JSON.stringify(emptyWriterQuery));
+      if (reentrancy === "reenter") {
+        writerQuery["$or"].push({ writer: this._clientID });
+      }
+      const update = {
+        $set: {
+          writer: this._clientID,
+          readers: [],
+        },
+        $setOnInsert: {
+          fencingEpoch: Date.now(),
+        },
+        $inc: {
+          fencingCounter: 1,
+        },
+      };
+      if (reentrancy === "count") {
+        update.$set["writerCount"] = 1;
+      }
+      if (this._options.writerPreference) {
+        update["$pull"] = { writerIntents: { clientID: this._clientID } };
+      }
+      const conditions = [emptyReadersQuery, writerQuery];
+      if (this._options.fairQueue) {
+        // wait for our turn, unless re-entering the lock
+        const turnQuery = { queue: this._queueTurnQuery("write") };
+        conditions.push(
+          reentrancy === "reenter" ? { $or: [{ writer: this._clientID }, turnQuery] } : turnQuery,
+        );
+        update["$pull"] = { ...update["$pull"], queue: { clientID: this._clientID } };
+      }
+      this._addLease(update, "write");
+      this._addMetadata(update, "write");
+      const mongoLock = await this._coll.findOneAndUpdate(
+        {
+          lockID: this._lockID,
+          $and: conditions,
+        },
+        update,
+        { upsert: true, returnDocument: "after" },
+      );
+      if (!mongoLock) {
+        return false;
+      }
+      this.fencingToken = fencingToken(mongoLock);
+      this._ticket = null;
+      return true;
+    } catch (err) {
+      if (!(err instanceof MongoError) || err.code !== DuplicateKeyErrorCode) {
+        throw new LockAcquireError(this._lockID, this._clientID, err);
+      }
+    }
+    if (reentrancy === "error") {
+      await this._checkReentry("write");
+    }
+    return false;
+  }
+
+  /*
+   * Makes one attempt at acquiring the read lock (must have no writer).
+   * @return {Promise} - Resolves to whether the lock was acquired, rejects if an error occurs
+   */
+  async _attemptRLock(): Promise<boolean> {
+    const reentrancy = this._options.reentrancy || "reenter";
+    if (reentrancy === "count" && (await this._reenter("read"))) {
+      return true;
+    }
+    // whether a current reader re-enters the lock with this same update
+    let reentersHere = false;
+    try {
+      // If no such lock exists, this will create it
+      // If a lock exists with this lockID with no writer, this will update it to add the clientID
+      // to the readers list
+      // If a lock exists with this lockID with a writer, this will throw an error which will be
+      // caught.  We will then retry.
+      const update = {
+        $set: {
+          writer: "",
+        },
+        $addToSet: {
+          readers: this._clientID,
+        },
+        $setOnInsert: {
+          fencingEpoch: Date.now(),
+        },
+      };
+      const filter = {
+        lockID: this._lockID,
+        $or: emptyWriterQuery["$or"],
+      };
+      // conditions current readers skip when re-entering the lock
+      const conditions = [];
+      if (this._options.writerPreference) {
+        // hold off while a writer is waiting
+        conditions.push({
+          writerIntents: { $not: { $elemMatch: { expiresAt: { $gt: new Date() } } } },
+        });
+      }
+      if (this._options.fairQueue) {
+        // wait for our turn
+        conditions.push({ queue: this._queueTurnQuery("read") });
+        update["$pull"] = { queue: { clientID: this._clientID } };
+      }
+      if (reentrancy === "count") {
+        update["$push"] = { readerCounts: { clientID: this._clientID, count: 1 } };
+      }
+      this._addLease(update, "read");
+      this._addMetadata(update, "read");
+      // a reader's lease, count and metadata entries may only be added once, so a current reader
+      // re-enters the lock with a separate update when there are any
+      reentersHere = reentrancy === "reenter" && !update["$push"];
+      if (!reentersHere) {
+        filter["readers"] = { $ne: this._clientID };
+      }
+      if (conditions.length > 0) {
+        filter["$and"] = reentersHere
+          ? conditions.map((condition) => ({ $or: [{ readers: this._clientID }, condition] }))
+          : conditions;
+      }
+      const result = await this._coll.updateOne(filter, update, { upsert: true });
+      if (result.matchedCount > 0 || result.upsertedCount > 0) {
+        this._ticket = null;
+        return true;
+      }
+    } catch (err) {
+      if (!(err instanceof MongoError) || err.code !== DuplicateKeyErrorCode) {
+        throw new LockAcquireError(this._lockID, this._clientID, err);
+      }
+    }
+    if (reentrancy === "reenter" && !reentersHere) {
+      return this._reenter("read");
+    }
+    if (reentrancy === "error") {
+      await this._checkReentry("read");
+    }
+    return false;
+  }
+
+  /*
+   * Makes an attempt at acquiring the lock for tryLock and tryRLock. Like one iteration of
+   * acquireWithRetry, if the attempt fails but clears holders whose leases have run out, it is made
+   * once more.
+   * @param {Function} attempt - makes one attempt at acquiring the lock, resolves to whether it did
+   * @return {Promise} - Resolves to whether the lock was acquired
+   */
+  async _attemptOnce(attempt: () => Promise<boolean>): Promise<boolean> {
+    if (await attempt()) {
+      return true;
+    }
+    return (await this._reapExpiredHolders()) && attempt();
+  }
+
+  /*
+   * Makes one attempt at upgrading this client's read lock. If other readers still hold the lock,
+   * this client claims the writer field instead, which keeps new readers and writers out while it
+   * waits. Every attempt renews the claim.
+   * @return {Promise} - Resolves to "upgraded" if the lock was upgraded, "waiting" if it is claimed
+   * but other readers hold it, and "lost" if another client is the writer. Rejects with a
+   * LockNotHeldError if this client does not hold the read lock, or if an error occurs
+   */
+  async _attemptUpgrade(): Promise<"upgraded" | "waiting" | "lost"> {
+    const writerQuery = JSON.parse(JSON.stringify(emptyWriterQuery));
+    writerQuery["$or"].push({ writer: this._clientID });
+    let mongoLock;
+    try {
+      const update = {
+        $set: {
+          writer: this._clientID,
+          readers: [],
+        },
+        $inc: {
+          fencingCounter: 1,
+        },
+      };
+      // this client is the only reader, so the reader entries left are its own
+      if (this._usesLeases()) {
+        update["$unset"] = { readerLeases: "" };
+      }
+      if (this._options.reentrancy === "count") {
+        update.$set["writerCount"] = 1;
+        update["$unset"] = { ...update["$unset"], readerCounts: "" };
+      }
+      if (this._options.holderMetadata) {
+        update["$unset"] = { ...update["$unset"], readerMetadata: "" };
+      }
+      this._addLease(update, "write");
+      this._addMetadata(update, "write");
+      mongoLock = await this._coll.findOneAndUpdate(
+        {
+          lockID: this._lockID,
+          readers: [this._clientID],
+          $or: writerQuery["$or"],
+        },
+        update,
+        { returnDocument: "after" },
+      );
+      if (mongoLock) {
+        this.fencingToken = fencingToken(mongoLock);
+        return "upgraded";
+      }
+
+      // other readers hold the lock
+      const claim = { $set: { writer: this._clientID } };
+      this._addLease(claim, "write");
+      const result = await this._coll.updateOne(
+        {
+          lockID: this._lockID,
+          readers: this._clientID,
+          $or: writerQuery["$or"],
+        },
+        claim,
+      );
+      if (result.matchedCount > 0) {
+        return "waiting";
+      }
+      mongoLock = await this._coll.findOne({ lockID: this._lockID });
+    } catch (err) {
+      throw new LockAcquireError(this._lockID, this._clientID, err);
+    }
+    if (!mongoLock || !(mongoLock.readers || []).includes(this._clientID)) {
+      throw new LockNotHeldError(this._lockID, this._clientID);
+    }
+    return "lost";
+  }
+
+  /*
+   * Drops this client's claim on the writer field after it gave up on upgrading its read lock.
+   */
+  async _cancelUpgrade() {
+    const update = { $set: { writer: "" } };
+    if (this._usesLeases()) {
+      update["$unset"] = { writerLease: "" };
+    }
+    try {
+      await this._coll.updateOne(
+        { lockID: this._lockID, writer: this._clientID, readers: this._clientID },
+        update,
+      );
+    } catch (err) {
+      throw new LockAcquireError(this._lockID, this._clientID, err);
+    }
+  }
+
+  /*
+   * Registers this client as a writer waiting for the lock, or renews its registration.
+   */
+  async _registerWriterIntent() {
+    const expiresAt = new Date(Date.now() + this._options.writerPreference.intentTime);
+    try {
+      const result = await this._coll.updateOne(
+        { lockID: this._lockID, "writerIntents.clientID": this._clientID },
+        { $set: { "writerIntents.$.expiresAt": expiresAt } },
+      );
+      if (result.matchedCount > 0) {
+        return;
+      }
+      await this._coll.updateOne(
+        { lockID: this._lockID, "writerIntents.clientID": { $ne: this._clientID } },
+        { $push: { writerIntents: { clientID: this._clientID, expiresAt } } },
+      );
+    } catch (err) {
+      throw new LockAcquireError(this._lockID, this._clientID, err);
+    }
+  }
+
+  /*
+   * Removes this client from the writers waiting for the lock, after it gave up on acquiring it.
+   */
+  async _withdrawWriterIntent() {
+    await this._coll.updateOne(
+      { lockID: this._lockID },
+      { $pull: { writerIntents: { clientID: this._clientID } } },
+    );
+  }
+
+  /*
+   * Returns the condition on the lock's queue under which it is this client's turn to take the
+   * lock: no client that is still waiting got a ticket before it. A run of readers can go at once,
+   * so readers only wait for writers ahead of them. A client without a ticket only gets a turn if
+   * nobody is waiting.
+   * @param {string} mode - whether this client wants the write lock or a read lock
+   */
+  _queueTurnQuery(mode: "read" | "write") {
+    const ahead: any = { expiresAt: { $gt: new Date() } };
+    if (this._ticket !== null) {
+      ahead.ticket = { $lt: this._ticket };
+    }
+    if (mode === "read") {
+      ahead.mode = "write";
+    }
+    return { $not: { $elemMatch: ahead } };
+  }
+
+  /*
+   * With fair queueing, the condition under which releasing the lock may delete the lock document:
+   * nobody is waiting in line, so that no waiting client loses its place.
+   */
+  _emptyQueueQuery() {
+    if (!this._options.fairQueue) {
+      return {};
+    }
+    return { queue: { $not: { $elemMatch: { expiresAt: { $gt: new Date() } } } } };
+  }
+
+  /*
+   * Takes a place at the back of the lock's queue, or renews this client's ticket if it already
+   * has one. The lock document is created if it does not exist yet.
+   * @param {string} mode - whether this client is waiting for the write lock or a read lock
+   */
+  async _joinQueue(mode: "read" | "write") {
+    const expiresAt = new Date(Date.now() + this._options.fairQueue.ticketTime);
+    try {
+      if (this._ticket !== null) {
+        const result = await this._coll.updateOne(
+          {
+            lockID: this._lockID,
+            queue: { $elemMatch: { clientID: this._clientID, ticket: this._ticket } },
+          },
+          { $set: { "queue.$.expiresAt": expiresAt } },
+        );
+        if (result.matchedCount > 0) {
+          return;
+        }
+        // the ticket ran out and was cleared, or the lock document was deleted. Get back in line
+        this._ticket = null;
+      }
+
+      // hand out the next ticket, unless someone else took it in the meantime, in which case the
+      // update either matches nothing or fails to insert a duplicate lock. Then try the next one
+      for (;;) {
+        const mongoLock = await this._coll.findOne({ lockID: this._lockID });
+        const lastTicket = (mongoLock && mongoLock.nextTicket) || null;
+        const ticket = (lastTicket || 0) + 1;
+        try {
+          const result = await this._coll.updateOne(
+            { lockID: this._lockID, nextTicket: lastTicket },
+            {
+              $set: { nextTicket: ticket },
+              $push: { queue: { clientID: this._clientID, mode, ticket, expiresAt } },
+              $setOnInsert: { writer: "", readers: [], fencingEpoch: Date.now() },
+            },
+            { upsert: true },
+          );
+          if (result.matchedCount > 0 || result.upsertedCount > 0) {
+            this._ticket = ticket;
+            return;
+          }
+        } catch (err) {
+          if (!(err instanceof MongoError) || err.code !== DuplicateKeyErrorCode) {
+            throw err;
+          }
+        }
+      }
+    } catch (err) {
+      throw new LockAcquireError(this._lockID, this._clientID, err);
+    }
+  }
+
+  /*
+   * Gives up this client's place in the lock's queue, after it gave up on acquiring the lock.
+   */
+  async _leaveQueue() {
+    this._ticket = null;
+    await this._coll.updateOne(
+      { lockID: this._lockID },
+      { $pull: { queue: { clientID: this._clientID } } },
+    );
+  }
+
+  /*
+   * Re-enters a lock this client already holds, renewing its lease. With counted reentrancy, adds a
+   * hold to the lock.
+   * @param {string} mode - whether to re-enter the write lock or a read lock
+   * @return {Promise} - Resolves to whether this client held the lock, rejects if an error occurs
+   */
+  async _reenter(mode: "read" | "write"): Promise<boolean> {
+    try {
+      if (mode === "write") {
+        const update = {
+          $set: {},
+          $inc: {
+            writerCount: 1,
+            fencingCounter: 1,
+          },
+        };
+        this._addLease(update, "write");
+        if (Object.keys(update.$set).length === 0) {
+          delete update.$set;
+        }
+        const mongoLock = await this._coll.findOneAndUpdate(
+          {
+            lockID: this._lockID,
+            writer: this._clientID,
+            $or: emptyReadersQuery["$or"],
+          },
+          update,
+          { returnDocument: "after" },
+        );
+        if (!mongoLock) {
+          return false;
+        }
+        this.fencingToken = fencingToken(mongoLock);
+        return true;
+      }
+
+      // the $set is never empty, so that the update is valid whatever else it does
+      const update = {
+        $set: {
+          writer: "",
+        },
+      };
+      if (this._options.reentrancy === "count") {
+        update["$inc"] = { "readerCounts.$[holder].count": 1 };
+      }
+      if (this._options.fairQueue) {
+        update["$pull"] = { queue: { clientID: this._clientID } };
+      }
+      this._renewLease(update, "read");
+      const result = await this._coll.updateOne(
+        {
+          lockID: this._lockID,
+          $or: emptyWriterQuery["$or"],
+          readers: this._clientID,
+        },
+        update,
+        this._holderArrayFilters(update),
+      );
+      if (result.matchedCount === 0) {
+        return false;
+      }
+      this._ticket = null;
+      return true;
+    } catch (err) {
+      throw new LockAcquireError(this._lockID, this._clientID, err);
+    }
+  }
+
+  /*
+   * With counted reentrancy, drops one of this client's holds on the lock if it has more than one.
+   * @param {string} mode - whether to drop a hold on the write lock or a read lock
+   * @return {Promise} - Resolves to whether a hold was dropped, in which case the lock is still held
+   */
+  async _releaseHold(mode: "read" | "write", span: LockSpan | null = null): Promise<boolean> {
+    if (this._options.reentrancy !== "count") {
+      return false;
+    }
+    const holdQuery =
+      mode === "write"
+        ? { writer: this._clientID, writerCount: { $gt: 1 } }
+        : { readerCounts: { $elemMatch: { clientID: this._clientID, count: { $gt: 1 } } } };
+    const countKey = mode === "write" ? "writerCount" : "readerCounts.$.count";
+    try {
+      const result = await this._coll.updateOne(
+        {
+          lockID: this._lockID,
+          ...holdQuery,
+        },
+        { $inc: { [countKey]: -1 } },
+      );
+      return result.matchedCount > 0;
+    } catch (err) {
+      throw this._failed(mode, new LockReleaseError(this._lockID, this._clientID, err), span);
+    }
+  }
+
+  /*
+   * Throws a LockReentryError if this client already holds the lock. Used when re-entering a lock
+   * is an error, after an attempt to acquire it failed.
+   * @param {string} mode - whether this client was trying to acquire the write lock or a read lock
+   */
+  async _checkReentry(mode: "read" | "write") {
+    let mongoLock;
+    try {
+      mongoLock = await this._coll.findOne({ lockID: this._lockID });
+    } catch (err) {
+      throw new LockAcquireError(this._lockID, this._clientID, err);
+    }
+    if (!mongoLock) {
+      return;
+    }
+    const held =
+      mode === "write"
+        ? mongoLock.writer === this._clientID
+        : (mongoLock.readers || []).includes(this._clientID);
+    if (held) {
+      throw new LockReentryError(this._lockID, this._clientID);
+    }
+  }
+
+  /*
+   * Whether holders using this instance carry a lease, i.e. whether heartbeat or expiresAt is set.
+   */
+  _usesLeases(): boolean {
+    return !!(this._options.heartbeat || this._options.expiresAt);
+  }
+
+  /*
+   * Returns the expiry of a lease taken out now, or null if this instance does not use leases.
+   */
+  _leaseExpiry(): Date | null {
+    if (this._options.heartbeat) {
+      return new Date(Date.now() + this._options.heartbeat.leaseTime);
+    }
+    return this._options.expiresAt;
+  }
+
+  /*
+   * Adds this client's lease to an acquire update. The document-wide expiresAt is pushed forward
+   * with $max so that it never cuts short the lease of another holder.
+   * @param {Object} update - the update to add the lease to. Must have a $set
+   * @param {string} mode - whether the lease is for the writer or for a new reader
+   */
+  _addLease(update: any, mode: "read" | "write") {
+    const expiresAt = this._leaseExpiry();
+    if (!expiresAt) {
+      return;
+    }
+    if (mode === "write") {
+      update["$set"]["writerLease"] = { clientID: this._clientID, expiresAt };
+    } else {
+      update["$push"] = {
+        ...update["$push"],
+        readerLeases: { clientID: this._clientID, expiresAt },
+      };
+    }
+    update["$max"] = { expiresAt };
+  }
+
+  /*
+   * Adds the renewal of this client's lease to an update of a lock it already holds. A reader's
+   * lease is found with the `holder` array filter, see _holderArrayFilters.
+   * @param {Object} update - the update to add the lease to. Must have a $set
+   * @param {string} mode - whether the lease is for the writer or for a reader
+   */
+  _renewLease(update: any, mode: "read" | "write") {
+    if (mode === "write") {
+      this._addLease(update, "write");
+      return;
+    }
+    const expiresAt = this._leaseExpiry();
+    if (!expiresAt) {
+      return;
+    }
+    update["$set"]["readerLeases.$[holder].expiresAt"] = expiresAt;
+    update["$max"] = { expiresAt };
+  }
+
+  /*
+   * Returns the update options that point the `holder` array filter at this client's entries in
+   * the reader arrays, if the update uses it. Mongo rejects array filters an update does not use.
+   * @param {Object} update - the update to make
+   */
+  _holderArrayFilters(update: any): UpdateOptions | undefined {
+    const fields = Object.keys(update).reduce((all, op) => all.concat(Object.keys(update[op])), []);
+    if (!fields.some((field) => field.includes(".$[holder]."))) {
+      return undefined;
+    }
+    return { arrayFilters: [{ "holder.clientID": this._clientID }] };
+  }
+
+  /*
+   * Adds this client's holder metadata to an acquire update, if the holderMetadata option is set.
+   * @param {Object} update - the update to add the metadata to. Must have a $set
+   * @param {string} mode - whether the client acquires the write lock or a read lock
+   */
+  _addMetadata(update: any, mode: "read" | "write") {
+    const options = this._options.holderMetadata;
+    if (!options) {
+      return;
+    }
+    const metadata: HolderMetadata = {
+      clientID: this._clientID,
+      hostname: hostname(),
+      pid: process.pid,
+      acquiredAt: new Date(),
+      labels: options.labels || {},
+    };
+    if (mode === "write") {
+      update["$set"]["writerMetadata"] = metadata;
+    } else {
+      update["$push"] = { ...update["$push"], readerMetadata: metadata };
+    }
+  }
+
+  /*
+   * Clears the holders of the lock whose leases have run out. Each holder is only cleared if its
+   * lease is still expired at the time of the update, so a holder that renews in the meantime is
+   * left alone.
+   * @return {Promise} - Resolves to true if any holders were cleared
+   */
+  async _reapExpiredHolders(): Promise<boolean> {
+    const now = new Date();
+    let result;
+    try {
+      const mongoLock = await this._coll.findOne({ lockID: this._lockID });
+      if (!mongoLock) {
+        return false;
+      }
+      if ((mongoLock.queue || []).some((ticket) => ticket.expiresAt <= now)) {
+        // abandoned tickets no longer hold anyone up, but would pile up on the document
+        await this._coll.updateOne(
+          { lockID: this._lockID },
+          { $pull: { queue: { expiresAt: { $lte: now } } } },
+        );
+      }
+      const expired = expiredHolders(mongoLock, now);
+      if (!expired.writer && expired.readers.length === 0) {
+        return false;
+      }
+
+      const docExpired = !!mongoLock.expiresAt && mongoLock.expiresAt <= now;
+      const conditions = [];
+      const update = { $set: {}, $unset: {}, $pull: {} };
+      if (expired.writer) {
+        const lease = mongoLock.writerLease;
+        if (lease && lease.clientID === expired.writer) {
+          conditions.push({
+            writer: expired.writer,
+            "writerLease.clientID": expired.writer,
+            "writerLease.expiresAt": { $lte: now },
+          });
+        } else {
+          conditions.push({
+            writer: expired.writer,
+            "writerLease.clientID": { $ne: expired.writer },
+            expiresAt: { $lte: now },
+          });
+        }
+        update.$set["writer"] = "";
+        update.$unset["writerLease"] = "";
+        update.$unset["writerCount"] = "";
+        update.$unset["writerMetadata"] = "";
+      }
+      for (const reader of expired.readers) {
+        if (readerLease(mongoLock, reader)) {
+          conditions.push({
+            readers: reader,
+            readerLeases: { $elemMatch: { clientID: reader, expiresAt: { $lte: now } } },
+          });
+        } else {
+          conditions.push({
+            readers: reader,
+            "readerLeases.clientID": { $ne: reader },
+            expiresAt: { $lte: now },
+          });
+        }
+      }
+      if (expired.readers.length > 0) {
+        const expiredReader = { clientID: { $in: expired.readers } };
+        update.$pull["readers"] = { $in: expired.readers };
+        update.$pull["readerLeases"] = expiredReader;
+        update.$pull["readerCounts"] = expiredReader;
+        update.$pull["readerMetadata"] = expiredReader;
+      }
+      // every lease on the document has run out, so whatever holders are left have none. Drop the
+      // expiry so that the TTL index does not delete the lock out from under them
+      if (docExpired) {
+        conditions.push({ expiresAt: { $lte: now } });
+        update.$unset["expiresAt"] = "";
+      }
+      for (const op of Object.keys(update)) {
+        if (Object.keys(update[op]).length === 0) {
+          delete update[op];
+        }
+      }
+
+      result = await this._coll.updateOne({ lockID: this._lockID, $and: conditions }, update);
+      if (result.matchedCount > 0) {
+        this._emit({ type: "expired", lockID: this._lockID, clientID: this._clientID, ...expired });
+      }
+    } catch (err) {
+      throw new LockAcquireError(this._lockID, this._clientID, err);
+    }
+    return result.matchedCount > 0;
+  }
+
+  /*
+   * Starts renewing the lease of a held lock every heartbeat interval, if heartbeats are enabled.
+   * @param {string} mode - whether this client holds the write lock or a read lock
+   */
+  _startHeartbeat(mode: "read" | "write") {
+    const heartbeat = this._options.heartbeat;
+    if (!heartbeat) {
+      return;
+    }
+    // only matches the lock while this client still holds it
+    const holderQuery =
+      mode === "write"
+        ? { lockID: this._lockID, writer: this._clientID }
+        : { lockID: this._lockID, readers: this._clientID };
+    const onError = (err: Error) => {
+      this._failed(mode, err);
+      if (heartbeat.onError) {
+        heartbeat.onError(err);
+      }
+    };
+    this._stopHeartbeat();
+    const timer = startHeartbeat(this, { ...heartbeat, onError }, async () => {
+      const update = { $set: {} };
+      this._renewLease(update, mode);
+      const result =
+        mode === "write"
+          ? await this._coll.updateOne(holderQuery, update)
+          : await this._coll.updateOne(holderQuery, update, this._holderArrayFilters(update));
+      // a renewal that finishes after the heartbeat was stopped says nothing about a later hold
+      if (result.matchedCount === 0 && this._heartbeatTimer === timer) {
+        // another client cleared this one's lease after it ran out
+        this._stopHolding(mode, "lost", new LockNotHeldError(this._lockID, this._clientID));
+        this._emit({
+          type: "expired",
+          lockID: this._lockID,
+          clientID: this._clientID,
+          writer: mode === "write" ? this._clientID : null,
+          readers: mode === "read" ? [this._clientID] : [],
+        });
+      }
+      return result.matchedCount > 0;
+    });
+    this._heartbeatTimer = timer;
+  }
+
+  /*
+   * Stops renewing the lease of the held lock.
+   */
+  _stopHeartbeat() {
+    if (this._heartbeatTimer) {
+      clearInterval(this._heartbeatTimer);
+      this._heartbeatTimer = null;
+    }
+  }
+
+  /*
+   * Passes an event to the onEvent option, if set.
+   */
+  _emit(event: LockEvent) {
+    emitLockEvent(this._options.onEvent, event);
+  }
+
+  /*
+   * Emits an attemptFailed event for an attempt that found the lock held by another client.
+   * @param {string} mode - whether the client was acquiring the write lock or a read lock, or
+   * overriding the writer
+   * @param {number} attempts - the number of attempts made so far
+   * @param {Object} span - the span of the operation, when tracing
+   */
+  _attemptFailed(
+    mode: "read" | "write" | "override",
+    attempts: number,
+    span: LockSpan | null = null,
+  ) {
+    if (span) {
+      span.setAttribute("lock.attempts", attempts);
+    }
+    this._emit({
+      type: "attemptFailed",
+      lockID: this._lockID,
+      clientID: this._clientID,
+      mode,
+      attempt: attempts,
+    });
+  }
+
+  /*
+   * Emits a failed event for an error, and ends the span of the operation that failed.
+   * @param {string} mode - whether the client was using the write lock or a read lock, or
+   * overriding the writer
+   * @param {Error} error - the error
+   * @param {Object} span - the span of the operation, when tracing
+   * @return {Error} - the error, for throwing
+   */
+  _failed(
+    mode: "read" | "write" | "override",
+    error: unknown,
+    span: LockSpan | null = null,
+  ): unknown {
+    endSpan(span, errorOutcome(error), error);
+    this._emit({ type: "failed", lockID: this._lockID, clientID: this._clientID, mode, error });
+    return error;
+  }
+
+  /*
+   * Starts a span for an operation on the lock, if tracing.
+   * @param {string} operation - the operation, e.g. "acquire"
+   * @param {string} mode - whether the operation is on the write lock or a read lock
+   * @return {Object} - the span, or null when tracing is off
+   */
+  _startSpan(operation: "acquire" | "release" | "override" | "hold", mode: "read" | "write") {
+    const tracer = this._options.tracer;
+    if (!tracer) {
+      return null;
+    }
+    const attributes: SpanAttributes = {
+      "lock.id": this._lockID,
+      "lock.client_id": this._clientID,
+      "lock.mode": mode,
+    };
+    if (operation === "acquire" || operation === "override") {
+      attributes["lock.attempts"] = 1;
+    }
+    return tracer.startSpan(`lock.${operation}`, { attributes });
+  }
+
+  /*
+   * Records that this instance now holds the lock, unless it already did, for reporting how long
+   * it held it.
+   * @param {string} mode - whether the write lock or a read lock is held
+   */
+  _startHolding(mode: "read" | "write") {
+    if (this._heldSince[mode] !== null) {
+      return;
+    }
+    this._heldSince[mode] = Date.now();
+    this._holdSpans[mode] = this._startSpan("hold", mode);
+  }
+
+  /*
+   * Records that this instance no longer holds the lock.
+   * @param {string} mode - whether the write lock or a read lock was held
+   * @param {string} outcome - how holding the lock ended, e.g. "released"
+   * @param {Error} err - the error that ended it, if any
+   * @return {number} - how long this instance held the lock, in ms, or null if it was acquired by
+   * another instance
+   */
+  _stopHolding(mode: "read" | "write", outcome: string, err?: unknown): number | null {
+    const heldSince = this._heldSince[mode];
+    this._heldSince[mode] = null;
+    endSpan(this._holdSpans[mode], outcome, err);
+    this._holdSpans[mode] = null;
+    return heldSince === null ? null : Date.now() - heldSince;
+  }
+
+  /*
+   * Records when this instance acquired the lock, emits an acquired event and ends the span of
+   * acquiring it. Re-entering a lock keeps the time it was first acquired.
+   * @param {string} mode - whether the write lock or a read lock was acquired
+   * @param {number} start - when acquiring the lock started, as returned by Date.now()
+   * @param {number} attempts - the number of attempts it took
+   * @param {Object} span - the span of acquiring the lock, when tracing
+   */
+  _acquired(mode: "read" | "write", start: number, attempts: number, span: LockSpan | null = null) {
+    const now = Date.now();
+    if (span) {
+      span.setAttribute("lock.attempts", attempts);
+    }
+    endSpan(span, "acquired");
+    this._startHolding(mode);
+    this._emit({
+      type: "acquired",
+      lockID: this._lockID,
+      clientID: this._clientID,
+      mode,
+      waitMs: now - start,
+      attempts,
+    });
+  }
+
+  /*
+   * Emits a released event with how long this instance held the lock, and ends the span of
+   * releasing it.
+   * @param {string} mode - whether the write lock or a read lock was released
+   * @param {Object} span - the span of releasing the lock, when tracing
+   */
+  _released(mode: "read" | "write", span: LockSpan | null = null) {
+    const heldMs = this._stopHolding(mode, "released");
+    endSpan(span, "released");
+    this._emit({
+      type: "released",
+      lockID: this._lockID,
+      clientID: this._clientID,
+      mode,
+      heldMs,
+    });
+  }
 }
@@ -0,0 +1,262 @@
+import { MongoError } from "mongodb";
+import { acquireWithRetry } from "./acquire";
+import { LockAcquireError, LockNotHeldError, LockReentryError, LockReleaseError } from "./errors";
+import { startHeartbeat } from "./heartbeat";
+import {
+  AcquireOptions,
+  DuplicateKeyErrorCode,
+  MongoLockCollection,
+  RWMutexOptions,
+} from "./RWMutex";
+
+export type SemaphoreOptions = Pick<
+  RWMutexOptions,
+  "sleepTime" | "expiresAt" | "heartbeat" | "waitStrategy" | "retryPolicy" | "maxAttempts"
+>;
+
+/*
+ * Semaphore implements a distributed counting semaphore backed by mongodb: at most `limit` permits
+ * can be held at once, across all clients. It is stored in a lock document in the same collection
+ * as RWMutex locks, so its id must not be used for an RWMutex. The document keeps a list of the
+ * clients holding permits, and the number of permits held so that acquiring can check it against
+ * the limit in a single update. Every client of a semaphore must use the same limit.
+ *
+ * Waiting, retries and leases work the same way as for RWMutex.
+ */
+export class Semaphore {
+  _coll: MongoLockCollection;
+  _lockID: string;
+  _clientID: string;
+  _limit: number;
+  _options: SemaphoreOptions;
+  _heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  // number of permits held by this instance, if any
+  _permits: number | null = null;
+
+  /*
+   * Creates a new Semaphore
+   * @param {mongodb Collection} collection - the mongodb Collection where the object should be stored
+   * @param {string} lockID - id corresponding to the resource you are limiting. Must be unique
+   * @param {string} clientID - id corresponding to the client using this instance. Must be unique
+   * @param {number} limit - the number of permits that can be held at once
+   * @param {Object} options - semaphore options
+   */
+  constructor(
+    coll: MongoLockCollection,
+    lockID: string,
+    clientID: string,
+    limit: number,
+    options: SemaphoreOptions = { sleepTime: 1000, expiresAt: null },
+  ) {
+    this._coll = coll;
+    this._lockID = lockID;
+    this._clientID = clientID;
+    this._limit = limit;
+    this._options = options;
+  }
+
+  /*
+   * Acquires permits, waiting until enough of them are free.
+   * @param {number} permits - the number of permits to acquire
+   * @param {Object} options - optional timeout and AbortSignal for giving up
+   * @return {Promise} - Resolves when the permits are acquired, rejects with a LockReentryError if
+   * this instance already holds permits, and if an error occurs, the timeout passes or the signal
+   * is aborted
+   */
+  async acquire(permits = 1, options: AcquireOptions = {}): Promise<void> {
+    this._checkPermits(permits);
+    await acquireWithRetry(this, () => this._attemptAcquire(permits), options);
+    this._startHeartbeat();
+  }
+
+  /*
+   * Makes a single attempt at acquiring permits.
+   * @param {number} permits - the number of permits to acquire
+   * @return {Promise} - Resolves to true if the permits were acquired and false if not enough of
+   * them are free, rejects if an error occurs
+   */
+  async tryAcquire(permits = 1): Promise<boolean> {
+    this._checkPermits(permits);
+    const acquired = await this._attemptAcquire(permits);
+    if (acquired) {
+      this._startHeartbeat();
+    }
+    return acquired;
+  }
+
+  /*
+   * Releases the permits held by this client.
+   * @return {Promise} - Resolves when the permits are released, rejects with a LockNotHeldError if
+   * this client holds none and with a LockReleaseError if an error occurs
+   */
+  async release(): Promise<void> {
+    this._stopHeartbeat();
+    let result;
+    try {
+      // delete the semaphore if this is the only holder
+      const deleteResult = await this._coll.deleteOne({
+        lockID: this._lockID,
+        holders: { $size: 1 },
+        "holders.clientID": this._clientID,
+      });
+      if (deleteResult.deletedCount > 0) {
+        this._permits = null;
+        return;
+      }
+
+      // otherwise, remove this client from the holders
+      let permits = this._permits;
+      if (permits === null) {
+        // acquired through another instance
+        const mongoLock = await this._coll.findOne({ lockID: this._lockID });
+        const holder = ((mongoLock && mongoLock.holders) || []).find(
+          (holder) => holder.clientID === this._clientID,
+        );
+        permits = holder ? holder.permits : 0;
+      }
+      result = await this._coll.updateOne(
+        { lockID: this._lockID, holders: { $elemMatch: { clientID: this._clientID, permits } } },
+        { $pull: { holders: { clientID: this._clientID } }, $inc: { used: -permits } },
+      );
+    } catch (err) {
+      throw new LockReleaseError(this._lockID, this._clientID, err);
+    }
+    this._permits = null;
+    if (result.matchedCount === 0) {
+      throw new LockNotHeldError(this._lockID, this._clientID);
+    }
+  }
+
+  _checkPermits(permits: number) {
+    if (this._permits !== null) {
+      throw new LockReentryError(this._lockID, this._clientID);
+    }
+    if (!(permits >= 1 && permits <= this._limit)) {
+      throw new Error(
+        `cannot acquire ${permits} permits of semaphore ${this._lockID} with limit ${this._limit}`,
+      );
+    }
+  }
+
+  /*
+   * Makes one attempt at acquiring permits: adds this client to the holders if enough permits are
+   * free.
+   * @param {number} permits - the number of permits to acquire
+   * @return {Promise} - Resolves to whether the permits were acquired, rejects if an error occurs
+   */
+  async _attemptAcquire(permits: number): Promise<boolean> {
+    const expiresAt = this._leaseExpiry();
+    const update = {
+      $inc: {
+        used: permits,
+      },
+      $push: {
+        holders: { clientID: this._clientID, permits, expiresAt },
+      },
+      $setOnInsert: {
+        writer: "",
+        readers: [],
+      },
+    };
+    if (expiresAt) {
+      update["$max"] = { expiresAt };
+    }
+    try {
+      // If no such semaphore exists, this will create it
+      // If one exists with enough free permits, this will add this client to its holders
+      // Otherwise, this will throw an error which will be caught. We will then retry.
+      await this._coll.updateOne(
+        {
+          lockID: this._lockID,
+          used: { $lte: this._limit - permits },
+          "holders.clientID": { $ne: this._clientID },
+        },
+        update,
+        { upsert: true },
+      );
+    } catch (err) {
+      if (!(err instanceof MongoError) || err.code !== DuplicateKeyErrorCode) {
+        throw new LockAcquireError(this._lockID, this._clientID, err);
+      }
+      return false;
+    }
+    this._permits = permits;
+    return true;
+  }
+
+  /*
+   * Returns the expiry of a lease taken out now, or null if this semaphore does not use leases.
+   */
+  _leaseExpiry(): Date | null {
+    if (this._options.heartbeat) {
+      return new Date(Date.now() + this._options.heartbeat.leaseTime);
+    }
+    return this._options.expiresAt;
+  }
+
+  /*
+   * Releases the permits of holders whose leases have run out. Each holder is only cleared if its
+   * lease is still expired at the time of the update, so a holder that renews in the meantime is
+   * left alone.
+   * @return {Promise} - Resolves to true if any holders were cleared
+   */
+  async _reapExpiredHolders(): Promise<boolean> {
+    const now = new Date();
+    let reaped = false;
+    try {
+      const mongoLock = await this._coll.findOne({ lockID: this._lockID });
+      const expired = ((mongoLock && mongoLock.holders) || []).filter(
+        (holder) => holder.expiresAt && holder.expiresAt <= now,
+      );
+      for (const holder of expired) {
+        const result = await this._coll.updateOne(
+          {
+            lockID: this._lockID,
+            holders: {
+              $elemMatch: {
+                clientID: holder.clientID,
+                permits: holder.permits,
+                expiresAt: { $lte: now },
+              },
+            },
+          },
+          { $pull: { holders: { clientID: holder.clientID } }, $inc: { used: -holder.permits } },
+        );
+        reaped = reaped || result.matchedCount > 0;
+      }
+    } catch (err) {
+      throw new LockAcquireError(this._lockID, this._clientID, err);
+    }
+    return reaped;
+  }
+
+  /*
+   * Starts renewing the lease of the held permits every heartbeat interval, if heartbeats are
+   * enabled.
+   */
+  _startHeartbeat() {
+    const heartbeat = this._options.heartbeat;
+    if (!heartbeat) {
+      return;
+    }
+    this._stopHeartbeat();
+    this._heartbeatTimer = startHeartbeat(this, heartbeat, async () => {
+      const expiresAt = this._leaseExpiry();
+      const result = await this._coll.updateOne(
+        { lockID: this._lockID, "holders.clientID": this._clientID },
+        { $set: { "holders.$.expiresAt": expiresAt }, $max: { expiresAt } },
+      );
+      return result.matchedCount > 0;
+    });
+  }
+
+  /*
+   * Stops renewing the lease of the held permits.
+   */
+  _stopHeartbeat() {
+    if (this._heartbeatTimer) {
+      clearInterval(this._heartbeatTimer);
+      this._heartbeatTimer = null;
+    }
+  }
+}
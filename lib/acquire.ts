@@ -0,0 +1,167 @@
+import { LockAbortedError, LockAttemptsExceededError, LockTimeoutError } from "./errors";
+import { LockWatcher, WatchableCollection } from "./LockWatcher";
+import { RetryPolicy, constantBackoff } from "./retry";
+
+// Helper function that converts setTimeout to a Promise. Resolves early if the signal is aborted
+export function timeoutPromise(delay, signal?: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    if (signal && signal.aborted) {
+      // aborted while the last attempt was in flight, so the abort event has already fired
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      if (signal) {
+        signal.removeEventListener("abort", onAbort);
+      }
+      resolve();
+    }, delay);
+    if (signal) {
+      signal.addEventListener("abort", onAbort);
+    }
+  });
+}
+
+/*
+ * Combines AbortSignals into one that is aborted as soon as any of them is.
+ * @param {Array} signals - the signals to combine. Missing ones are skipped
+ * @return {Object} - the combined signal, undefined if there are none, and a function that stops
+ * listening to the given signals once the combined one is no longer needed
+ */
+export function anySignal(
+  signals: (AbortSignal | null | undefined)[],
+): {
+  signal: AbortSignal | undefined;
+  dispose: () => void;
+} {
+  const given = signals.filter((signal) => !!signal);
+  if (given.length <= 1) {
+    return { signal: given[0], dispose: () => {} };
+  }
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  for (const signal of given) {
+    if (signal.aborted) {
+      controller.abort();
+    }
+    signal.addEventListener("abort", abort);
+  }
+  return {
+    signal: controller.signal,
+    dispose: () => given.forEach((signal) => signal.removeEventListener("abort", abort)),
+  };
+}
+
+// The options that control retrying, shared by RWMutex and Semaphore
+export interface RetryOptions {
+  sleepTime: number;
+  waitStrategy?: "poll" | "changeStream";
+  retryPolicy?: RetryPolicy;
+  maxAttempts?: number;
+}
+
+// The parts of a lock needed to retry acquiring it
+export interface RetryingLock {
+  _coll: WatchableCollection;
+  _lockID: string;
+  _clientID: string;
+  _options: RetryOptions;
+  // clears the holders of the lock whose leases have run out, resolves to whether there were any
+  _reapExpiredHolders: () => Promise<boolean>;
+}
+
+/*
+ * Works out how long to wait before the next attempt according to the lock's retry policy.
+ * @param {Object} lock - the lock being acquired
+ * @param {number} attempts - the number of attempts made so far
+ * @param {number} previousDelay - the delay before the previous attempt
+ * @return {number} - the delay before the next attempt, in ms. Throws a LockAttemptsExceededError
+ * if maxAttempts attempts have already been made
+ */
+export function nextRetryDelay(
+  lock: RetryingLock,
+  attempts: number,
+  previousDelay: number,
+): number {
+  const { maxAttempts, retryPolicy, sleepTime } = lock._options;
+  if (maxAttempts != null && attempts >= maxAttempts) {
+    throw new LockAttemptsExceededError(lock._lockID, lock._clientID, attempts);
+  }
+  const policy = retryPolicy || constantBackoff(sleepTime);
+  return policy(attempts, previousDelay);
+}
+
+/*
+ * Retries an acquire attempt until it succeeds. Loops and does the following:
+ * 1. attempt to acquire the lock
+ * 2. if not acquired, clear any holders whose leases have run out and retry right away
+ * 3. otherwise sleep as long as the retry policy says (or until the lock changes) and retry,
+ *    unless the timeout has passed, the signal has been aborted or maxAttempts is reached
+ * @param {Object} lock - the lock being acquired
+ * @param {Function} attempt - makes one attempt at acquiring the lock, resolves to whether it did
+ * @param {Object} options - optional timeout and AbortSignal for giving up on the lock, and a
+ * callback called with the number of attempts made so far after each failed attempt
+ * @return {Promise} - Resolves to the number of attempts it took once the lock is acquired
+ */
+export async function acquireWithRetry(
+  lock: RetryingLock,
+  attempt: () => Promise<boolean>,
+  options: {
+    timeoutMs?: number;
+    signal?: AbortSignal;
+    onAttemptFailed?: (attempts: number) => void;
+  },
+): Promise<number> {
+  const { timeoutMs, signal, onAttemptFailed } = options;
+  const deadline = timeoutMs != null ? Date.now() + timeoutMs : null;
+  let watcher: LockWatcher | null = null;
+  let watchStarted = false;
+  let attempts = 0;
+  let delay = 0;
+  try {
+    for (;;) {
+      if (signal && signal.aborted) {
+        throw new LockAbortedError(lock._lockID, lock._clientID);
+      }
+      if (await attempt()) {
+        return attempts + 1;
+      }
+      attempts++;
+      if (onAttemptFailed) {
+        onAttemptFailed(attempts);
+      }
+      delay = nextRetryDelay(lock, attempts, delay);
+
+      // the lock is held by someone else. If any of its holders' leases have run out, clear them
+      // and try again right away
+      if (await lock._reapExpiredHolders()) {
+        continue;
+      }
+      let sleepTime = delay;
+      if (deadline !== null) {
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) {
+          throw new LockTimeoutError(lock._lockID, lock._clientID, timeoutMs);
+        }
+        sleepTime = Math.min(sleepTime, remaining);
+      }
+      if (lock._options.waitStrategy === "changeStream" && !watchStarted) {
+        watchStarted = true;
+        watcher = await LockWatcher.open(lock._coll, lock._lockID);
+        if (watcher) {
+          // the lock may have been released before the watch started, so check once more
+          continue;
+        }
+      }
+      await (watcher ? watcher.wait(sleepTime, signal) : timeoutPromise(sleepTime, signal));
+    }
+  } finally {
+    if (watcher) {
+      watcher.close();
+    }
+  }
+}
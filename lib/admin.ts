@@ -0,0 +1,129 @@
+import { LockReleaseError } from "./errors";
+import { EvictionRecord, MongoLockCollection } from "./RWMutex";
+
+export interface EvictOptions {
+  // why the holder is being evicted. Recorded on the lock document as `lastEviction`
+  reason?: string;
+}
+
+/*
+ * Applies an eviction to a lock document and records it.
+ * @param {mongodb Collection} collection - the collection the lock is stored in
+ * @param {Object} filter - matches the lock only while it has the holder(s) being evicted
+ * @param {Object} update - clears the holder(s)
+ * @param {Object} record - what is being evicted, without the reason and time
+ * @return {Promise} - Resolves to whether the lock had the holder(s) being evicted
+ */
+async function evict(
+  coll: Pick<MongoLockCollection, "updateOne">,
+  filter: any,
+  update: any,
+  record: Pick<EvictionRecord, "clientID" | "mode">,
+  options: EvictOptions,
+): Promise<boolean> {
+  const lastEviction: EvictionRecord = {
+    ...record,
+    reason: options.reason || null,
+    at: new Date(),
+  };
+  update["$set"] = { ...update["$set"], lastEviction };
+  let result;
+  try {
+    result = await coll.updateOne(filter, update);
+  } catch (err) {
+    throw new LockReleaseError(filter.lockID, record.clientID, err);
+  }
+  return result.matchedCount > 0;
+}
+
+/*
+ * Releases a lock on behalf of all of its holders, e.g. when they are stuck or dead. Clients
+ * waiting for the lock can acquire it right away. The lock document itself is kept, so that its fencing
+ * tokens keep increasing and the eviction stays on record.
+ * @param {mongodb Collection} collection - the collection the lock is stored in
+ * @param {string} lockID - id of the lock to release
+ * @param {Object} options - optional reason for the release
+ * @return {Promise} - Resolves to whether the lock exists, rejects with a LockReleaseError if an
+ * error occurs
+ */
+export async function forceUnlock(
+  coll: Pick<MongoLockCollection, "updateOne">,
+  lockID: string,
+  options: EvictOptions = {},
+): Promise<boolean> {
+  return evict(
+    coll,
+    { lockID },
+    {
+      $set: { writer: "", readers: [] },
+      $unset: {
+        writerLease: "",
+        readerLeases: "",
+        writerCount: "",
+        readerCounts: "",
+        writerMetadata: "",
+        readerMetadata: "",
+        expiresAt: "",
+      },
+    },
+    { clientID: null, mode: null },
+    options,
+  );
+}
+
+/*
+ * Removes a client from the readers of a lock, e.g. when it died without releasing its read lock.
+ * The other readers keep the lock.
+ * @param {mongodb Collection} collection - the collection the lock is stored in
+ * @param {string} lockID - id of the lock
+ * @param {string} clientID - the reader to evict
+ * @param {Object} options - optional reason for the eviction
+ * @return {Promise} - Resolves to whether the client was a reader, rejects with a
+ * LockReleaseError if an error occurs
+ */
+export async function evictReader(
+  coll: Pick<MongoLockCollection, "updateOne">,
+  lockID: string,
+  clientID: string,
+  options: EvictOptions = {},
+): Promise<boolean> {
+  const holder = { clientID };
+  const update = {
+    $pull: {
+      readers: clientID,
+      readerLeases: holder,
+      readerCounts: holder,
+      readerMetadata: holder,
+    },
+  };
+  return evict(coll, { lockID, readers: clientID }, update, { clientID, mode: "read" }, options);
+}
+
+/*
+ * Removes a client as the writer of a lock, e.g. when it died without releasing the write lock.
+ * Only evicts the writer if it still is the given client, so that a new writer is never evicted
+ * by mistake.
+ * @param {mongodb Collection} collection - the collection the lock is stored in
+ * @param {string} lockID - id of the lock
+ * @param {string} clientID - the writer to evict
+ * @param {Object} options - optional reason for the eviction
+ * @return {Promise} - Resolves to whether the client was the writer, rejects with a
+ * LockReleaseError if an error occurs
+ */
+export async function evictWriter(
+  coll: Pick<MongoLockCollection, "updateOne">,
+  lockID: string,
+  clientID: string,
+  options: EvictOptions = {},
+): Promise<boolean> {
+  return evict(
+    coll,
+    { lockID, writer: clientID },
+    {
+      $set: { writer: "" },
+      $unset: { writerLease: "", writerCount: "", writerMetadata: "" },
+    },
+    { clientID, mode: "write" },
+    options,
+  );
+}
@@ -0,0 +1,169 @@
+/*
+ * LockError is the base class of every error thrown by an RWMutex about one of its locks, so
+ * callers can tell lock failures apart with `instanceof` rather than by their messages.
+ */
+export class LockError extends Error {
+  lockID: string;
+  // the client that was using the lock, or null for operations on the lock as a whole
+  clientID: string | null;
+  // the error that caused this one, usually a MongoError, if any
+  cause?: unknown;
+
+  constructor(message: string, lockID: string, clientID: string | null, cause?: unknown) {
+    super(message);
+    // restore the prototype chain, which extending Error breaks when compiling to es5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.lockID = lockID;
+    this.clientID = clientID;
+    if (cause !== undefined) {
+      this.cause = cause;
+    }
+  }
+}
+
+// Appends the message of the error that caused a failure to the description of the failure
+function withCause(message: string, cause: unknown): string {
+  return cause instanceof Error ? `${message}: ${cause.message}` : message;
+}
+
+/*
+ * LockAcquireError is thrown when acquiring a lock fails, e.g. because mongo could not be reached.
+ * A lock that is held by someone else is not a failure: acquiring it is retried.
+ */
+export class LockAcquireError extends LockError {
+  constructor(lockID: string, clientID: string, cause?: unknown) {
+    super(withCause(`error acquiring lock ${lockID}`, cause), lockID, clientID, cause);
+  }
+}
+
+/*
+ * LockReleaseError is thrown when releasing a lock fails, e.g. because mongo could not be reached.
+ */
+export class LockReleaseError extends LockError {
+  constructor(lockID: string, clientID: string | null, cause?: unknown) {
+    super(withCause(`error releasing lock ${lockID}`, cause), lockID, clientID, cause);
+  }
+}
+
+/*
+ * LockRenewError is passed to a heartbeat's onError when renewing a lease fails, e.g. because mongo
+ * could not be reached.
+ */
+export class LockRenewError extends LockError {
+  constructor(lockID: string, clientID: string, cause?: unknown) {
+    super(withCause(`error renewing lock ${lockID}`, cause), lockID, clientID, cause);
+  }
+}
+
+/*
+ * LockNotHeldError is thrown when a client releases a lock it does not hold, and passed to a
+ * heartbeat's onError when the client turns out to have lost the lock.
+ */
+export class LockNotHeldError extends LockError {
+  constructor(lockID: string, clientID: string) {
+    super(`lock ${lockID} not currently held by client: ${clientID}`, lockID, clientID);
+  }
+}
+
+/*
+ * LockOverrideError is thrown when overriding the writer of a lock fails. `reason` says why, unless
+ * the failure was caused by another error.
+ */
+export class LockOverrideError extends LockError {
+  constructor(lockID: string, clientID: string, reason: string | null, cause?: unknown) {
+    const message = `error overriding lock ${lockID}`;
+    super(reason ? `${message}: ${reason}` : withCause(message, cause), lockID, clientID, cause);
+  }
+}
+
+/*
+ * LockOverrideConflictError is thrown when overriding the writer of a lock fails because another
+ * client took the lock in the meantime.
+ */
+export class LockOverrideConflictError extends LockOverrideError {
+  constructor(lockID: string, clientID: string, cause?: unknown) {
+    super(lockID, clientID, "lock already held by another writer", cause);
+  }
+}
+
+/*
+ * LockTimeoutError is thrown when a lock could not be acquired or overridden before the caller's
+ * timeout passed.
+ */
+export class LockTimeoutError extends LockError {
+  timeoutMs: number;
+
+  constructor(lockID: string, clientID: string, timeoutMs: number) {
+    super(`timed out acquiring lock ${lockID} after ${timeoutMs}ms`, lockID, clientID);
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/*
+ * LockAbortedError is thrown when the caller aborts acquiring a lock through its AbortSignal.
+ */
+export class LockAbortedError extends LockError {
+  constructor(lockID: string, clientID: string) {
+    super(`acquiring lock ${lockID} was aborted`, lockID, clientID);
+  }
+}
+
+/*
+ * LockAttemptsExceededError is thrown when a lock could not be acquired or overridden within the
+ * configured maxAttempts.
+ */
+export class LockAttemptsExceededError extends LockError {
+  attempts: number;
+
+  constructor(lockID: string, clientID: string, attempts: number) {
+    super(`gave up on lock ${lockID} after ${attempts} attempts`, lockID, clientID);
+    this.attempts = attempts;
+  }
+}
+
+/*
+ * LockReentryError is thrown when a client acquires a lock it already holds and re-entering locks
+ * is configured to be an error.
+ */
+export class LockReentryError extends LockError {
+  constructor(lockID: string, clientID: string) {
+    super(`lock ${lockID} already held by client: ${clientID}`, lockID, clientID);
+  }
+}
+
+/*
+ * LockScopeError is thrown by withLock and withRLock when the callback failed, and then releasing
+ * the lock failed as well. `error` is what the callback threw and `releaseError` what releasing the
+ * lock threw.
+ */
+export class LockScopeError extends LockError {
+  error: unknown;
+  releaseError: unknown;
+
+  constructor(lockID: string, clientID: string, error: unknown, releaseError: unknown) {
+    const message = withCause(`error while holding lock ${lockID}`, error);
+    super(withCause(`${message}, then releasing it failed`, releaseError), lockID, clientID, error);
+    this.error = error;
+    this.releaseError = releaseError;
+  }
+}
+
+/*
+ * LockShutdownTimeoutError is thrown by LockClient's shutdown() when some of its locks were still
+ * held once the deadline for releasing them passed. `locks` lists them.
+ */
+export class LockShutdownTimeoutError extends Error {
+  timeoutMs: number;
+  locks: { lockID: string; mode: "read" | "write" }[];
+
+  constructor(timeoutMs: number, locks: { lockID: string; mode: "read" | "write" }[]) {
+    const lockIDs = locks.map((lock) => lock.lockID).join(", ");
+    super(`timed out releasing locks ${lockIDs} after ${timeoutMs}ms`);
+    // restore the prototype chain, which extending Error breaks when compiling to es5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.timeoutMs = timeoutMs;
+    this.locks = locks;
+  }
+}
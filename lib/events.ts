@@ -0,0 +1,86 @@
+// The fields every lock event carries
+interface LockEventBase {
+  lockID: string;
+  clientID: string;
+}
+
+// An attempt to acquire or override the lock failed because another client holds it. Emitted once
+// per failed attempt, before waiting to retry
+export interface AttemptFailedEvent extends LockEventBase {
+  type: "attemptFailed";
+  mode: "read" | "write" | "override";
+  // number of attempts made so far
+  attempt: number;
+}
+
+// The client acquired the lock. Upgrading emits this for the write lock, downgrading for the read
+// lock
+export interface AcquiredEvent extends LockEventBase {
+  type: "acquired";
+  mode: "read" | "write";
+  // how long acquiring the lock took, including waiting for other clients, in ms
+  waitMs: number;
+  // number of attempts it took
+  attempts: number;
+}
+
+// The client released the lock. Upgrading emits this for the read lock, downgrading for the write
+// lock. Not emitted for releasing one of several holds with counted reentrancy
+export interface ReleasedEvent extends LockEventBase {
+  type: "released";
+  mode: "read" | "write";
+  // how long this instance held the lock, in ms, or null if it was acquired by another instance
+  heldMs: number | null;
+}
+
+// The client took the write lock over by overriding its writer
+export interface OverriddenEvent extends LockEventBase {
+  type: "overridden";
+  // the writer the client overrode, as passed to tryOverrideLockWriter. The lock may have turned
+  // out to have no writer at all
+  oldWriter: string;
+}
+
+// Holders whose leases ran out were cleared from the lock. Emitted by the client that cleared them,
+// and by a client whose heartbeat finds that it lost the lock
+export interface ExpiredEvent extends LockEventBase {
+  type: "expired";
+  // the writer that was cleared, if any
+  writer: string | null;
+  // the readers that were cleared
+  readers: string[];
+}
+
+// Acquiring, releasing, converting or overriding the lock failed, or a heartbeat failed to renew
+// its lease. Finding the lock held by another client is not a failure on its own, see attemptFailed
+export interface FailedEvent extends LockEventBase {
+  type: "failed";
+  mode: "read" | "write" | "override";
+  // the error the operation rejected with, or that was passed to the heartbeat's onError
+  error: unknown;
+}
+
+export type LockEvent =
+  | AttemptFailedEvent
+  | AcquiredEvent
+  | ReleasedEvent
+  | OverriddenEvent
+  | ExpiredEvent
+  | FailedEvent;
+
+/*
+ * Passes an event to a handler, if there is one. Errors thrown by the handler are ignored, so that
+ * a failing logging or metrics hook cannot break locking.
+ * @param {Function} onEvent - the handler, from the lock's options
+ * @param {Object} event - the event
+ */
+export function emitLockEvent(onEvent: ((event: LockEvent) => void) | undefined, event: LockEvent) {
+  if (!onEvent) {
+    return;
+  }
+  try {
+    onEvent(event);
+  } catch (err) {
+    // ignored, see above
+  }
+}
@@ -0,0 +1,41 @@
+import { LockNotHeldError, LockRenewError } from "./errors";
+import { HeartbeatOptions } from "./RWMutex";
+
+/*
+ * Renews the lease of a held lock every heartbeat interval, until stopped with clearInterval or
+ * until a renewal finds that the client no longer holds the lock. Failures are reported to the
+ * heartbeat's onError. A renewal still in flight when the heartbeat is stopped is ignored.
+ * @param {Object} lock - the lock being held, whose _heartbeatTimer is the running heartbeat
+ * @param {Object} heartbeat - how often to renew the lease and where to report failures
+ * @param {Function} renew - renews the lease, resolves to whether the client still held the lock
+ * @return {Timer} - the interval timer doing the renewing
+ */
+export function startHeartbeat(
+  lock: {
+    _lockID: string;
+    _clientID: string;
+    _heartbeatTimer: ReturnType<typeof setInterval> | null;
+  },
+  heartbeat: HeartbeatOptions,
+  renew: () => Promise<boolean>,
+): ReturnType<typeof setInterval> {
+  const onError = heartbeat.onError || (() => {});
+  const timer = setInterval(async () => {
+    try {
+      const held = await renew();
+      if (!held && lock._heartbeatTimer === timer) {
+        clearInterval(timer);
+        onError(new LockNotHeldError(lock._lockID, lock._clientID));
+      }
+    } catch (err) {
+      if (lock._heartbeatTimer === timer) {
+        onError(new LockRenewError(lock._lockID, lock._clientID, err));
+      }
+    }
+  }, heartbeat.interval);
+  // a heartbeat on its own should not keep the process alive
+  if (typeof timer === "object" && timer.unref) {
+    timer.unref();
+  }
+  return timer;
+}
@@ -1 +1,13 @@
 export * from "./RWMutex";
+export * from "./errors";
+export * from "./retry";
+export * from "./setup";
+export * from "./LockHandle";
+export * from "./admin";
+export * from "./MultiLock";
+export * from "./LockClient";
+export * from "./MemoryLockCollection";
+export * from "./Semaphore";
+export * from "./events";
+export * from "./metrics";
+export * from "./tracing";
@@ -0,0 +1,249 @@
+import { LockEvent } from "./events";
+
+export interface LockMetricsOptions {
+  // prefix of the metric names. Defaults to "mongo_lock"
+  prefix?: string;
+  // upper bounds of the histogram buckets, in seconds. Defaults to defaultBuckets
+  buckets?: number[];
+  // maps a lockID to the value of its lock_id label. Lock ids made up of e.g. a user id each make
+  // a series of their own, so use this to group them. Defaults to the lockID itself
+  lockIDLabel?: (lockID: string) => string;
+}
+
+// histogram buckets in seconds, from a few ms for an uncontended lock to minutes of waiting
+export const defaultBuckets = [
+  0.005,
+  0.01,
+  0.025,
+  0.05,
+  0.1,
+  0.25,
+  0.5,
+  1,
+  2.5,
+  5,
+  10,
+  30,
+  60,
+  300,
+];
+
+type Labels = { [name: string]: string };
+
+interface Series {
+  labels: Labels;
+  // the value of a counter
+  value: number;
+  // for a histogram, the number of observations at or below each bucket's bound, plus the sum of
+  // the observations. Their total number is in value
+  buckets?: number[];
+  sum?: number;
+}
+
+interface MetricDefinition {
+  name: string;
+  type: "counter" | "histogram";
+  help: string;
+}
+
+const metricDefinitions: MetricDefinition[] = [
+  {
+    name: "wait_seconds",
+    type: "histogram",
+    help: "Time spent acquiring a lock, including waiting for other clients.",
+  },
+  {
+    name: "hold_seconds",
+    type: "histogram",
+    help: "Time a lock was held, from acquiring it to releasing it.",
+  },
+  {
+    name: "retries_total",
+    type: "counter",
+    help: "Attempts to acquire or override a lock that found it held by another client.",
+  },
+  {
+    name: "contended_total",
+    type: "counter",
+    help: "Lock acquisitions that had to wait for another client.",
+  },
+  {
+    name: "overrides_total",
+    type: "counter",
+    help: "Overrides of the writer of a lock.",
+  },
+  {
+    name: "expired_holders_total",
+    type: "counter",
+    help: "Holders cleared from a lock because their lease ran out.",
+  },
+  {
+    name: "errors_total",
+    type: "counter",
+    help: "Failed lock operations, by the name of the error.",
+  },
+];
+
+// Escapes a label value for the Prometheus text format
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+// Formats labels for the Prometheus text format, e.g. {lock_id="a",mode="write"}
+function formatLabels(labels: Labels): string {
+  const pairs = Object.keys(labels).map((name) => `${name}="${escapeLabelValue(labels[name])}"`);
+  return `{${pairs.join(",")}}`;
+}
+
+// Formats a sample value for the Prometheus text format
+function formatValue(value: number): string {
+  if (value === Infinity) {
+    return "+Inf";
+  }
+  return String(value);
+}
+
+/*
+ * LockMetrics collects metrics about locks from their events: how long acquiring and holding them
+ * took, how often clients contended for them and how often operations on them failed, labeled by
+ * lockID and mode. It keeps them in memory and renders them in the Prometheus text format, to be
+ * served from an existing /metrics endpoint.
+ *
+ * Pass `onEvent` as the onEvent option of every lock to collect metrics about.
+ */
+export class LockMetrics {
+  _prefix: string;
+  _buckets: number[];
+  _lockIDLabel: (lockID: string) => string;
+  // the series of each metric, keyed by their formatted labels
+  _series: { [metric: string]: { [labels: string]: Series } };
+
+  /*
+   * Creates a new LockMetrics
+   * @param {Object} options - metric name prefix, histogram buckets and lock_id labels
+   */
+  constructor(options: LockMetricsOptions = {}) {
+    this._prefix = options.prefix || "mongo_lock";
+    this._buckets = (options.buckets || defaultBuckets).slice().sort((a, b) => a - b);
+    this._lockIDLabel = options.lockIDLabel || ((lockID) => lockID);
+    this.reset();
+  }
+
+  /*
+   * Updates the metrics with a lock event. Bound to the instance, so it can be passed as the
+   * onEvent option as is.
+   * @param {Object} event - the event
+   */
+  onEvent = (event: LockEvent) => {
+    const lockID = this._lockIDLabel(event.lockID);
+    switch (event.type) {
+      case "attemptFailed":
+        this._inc("retries_total", { lock_id: lockID, mode: event.mode });
+        break;
+      case "acquired": {
+        const labels = { lock_id: lockID, mode: event.mode };
+        this._observe("wait_seconds", labels, event.waitMs / 1000);
+        if (event.attempts > 1) {
+          this._inc("contended_total", labels);
+        }
+        break;
+      }
+      case "released":
+        if (event.heldMs !== null) {
+          this._observe("hold_seconds", { lock_id: lockID, mode: event.mode }, event.heldMs / 1000);
+        }
+        break;
+      case "overridden":
+        this._inc("overrides_total", { lock_id: lockID });
+        break;
+      case "expired":
+        this._inc(
+          "expired_holders_total",
+          { lock_id: lockID },
+          (event.writer ? 1 : 0) + event.readers.length,
+        );
+        break;
+      case "failed": {
+        const error = event.error instanceof Error ? event.error.name : "Error";
+        this._inc("errors_total", { lock_id: lockID, mode: event.mode, error });
+        break;
+      }
+    }
+  };
+
+  /*
+   * Renders the metrics in the Prometheus text exposition format.
+   * @return {string} - the metrics, one sample per line
+   */
+  render(): string {
+    const lines: string[] = [];
+    for (const definition of metricDefinitions) {
+      const name = `${this._prefix}_${definition.name}`;
+      lines.push(`# HELP ${name} ${definition.help}`);
+      lines.push(`# TYPE ${name} ${definition.type}`);
+      const series = this._series[definition.name];
+      for (const key of Object.keys(series).sort()) {
+        const { labels, value, buckets, sum } = series[key];
+        if (definition.type === "counter") {
+          lines.push(`${name}${key} ${formatValue(value)}`);
+          continue;
+        }
+        this._buckets.forEach((bound, i) => {
+          const bucketLabels = formatLabels({ ...labels, le: formatValue(bound) });
+          lines.push(`${name}_bucket${bucketLabels} ${buckets[i]}`);
+        });
+        lines.push(`${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value}`);
+        lines.push(`${name}_sum${key} ${formatValue(sum)}`);
+        lines.push(`${name}_count${key} ${value}`);
+      }
+    }
+    return lines.join("\n") + "\n";
+  }
+
+  /*
+   * Clears all of the metrics collected so far.
+   */
+  reset() {
+    this._series = {};
+    for (const definition of metricDefinitions) {
+      this._series[definition.name] = {};
+    }
+  }
+
+  /*
+   * Returns the series of a metric with the given labels, creating it if needed.
+   */
+  _getSeries(metric: string, labels: Labels): Series {
+    const key = formatLabels(labels);
+    const series = this._series[metric];
+    if (!series[key]) {
+      series[key] = { labels, value: 0 };
+    }
+    return series[key];
+  }
+
+  /*
+   * Increases a counter.
+   */
+  _inc(metric: string, labels: Labels, amount = 1) {
+    this._getSeries(metric, labels).value += amount;
+  }
+
+  /*
+   * Adds an observation to a histogram.
+   */
+  _observe(metric: string, labels: Labels, value: number) {
+    const series = this._getSeries(metric, labels);
+    if (!series.buckets) {
+      series.buckets = this._buckets.map(() => 0);
+      series.sum = 0;
+    }
+    this._buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        series.buckets[i]++;
+      }
+    });
+    series.sum += value;
+    series.value++;
+  }
+}
@@ -0,0 +1,41 @@
+/*
+ * A RetryPolicy decides how long to wait before retrying an operation on a lock.
+ * @param {number} attempt - the number of attempts made so far, starting at 1
+ * @param {number} previousDelay - the delay returned for the previous attempt, 0 for the first one
+ * @return {number} - how long to wait before the next attempt, in ms
+ */
+export type RetryPolicy = (attempt: number, previousDelay: number) => number;
+
+/*
+ * Waits the same amount of time between every attempt.
+ * @param {number} delay - the time to wait, in ms
+ */
+export function constantBackoff(delay: number): RetryPolicy {
+  return () => delay;
+}
+
+/*
+ * Doubles (or multiplies by `factor`) the wait after every attempt, up to `max`.
+ * @param {Object} options - the first delay, the largest delay and the growth factor
+ */
+export function exponentialBackoff(options: {
+  initial: number;
+  max: number;
+  factor?: number;
+}): RetryPolicy {
+  const factor = options.factor || 2;
+  return (attempt) => Math.min(options.max, options.initial * Math.pow(factor, attempt - 1));
+}
+
+/*
+ * "Decorrelated jitter" backoff: each delay is picked at random between `base` and three times the
+ * previous delay, up to `max`. Spreads out clients that started waiting at the same moment.
+ * See https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+ * @param {Object} options - the smallest and the largest delay
+ */
+export function decorrelatedJitter(options: { base: number; max: number }): RetryPolicy {
+  return (attempt, previousDelay) => {
+    const upper = Math.max(options.base, previousDelay * 3);
+    return Math.min(options.max, options.base + Math.random() * (upper - options.base));
+  };
+}
@@ -0,0 +1,185 @@
+import { Collection, Db, MongoError } from "mongodb";
+import { MongoLock } from "./RWMutex";
+
+export interface LockCollectionOptions {
+  // whether the collection needs a TTL index on expiresAt, which deletes locks once every lease on
+  // them has run out. Needed when using expiresAt or heartbeats. Defaults to true
+  ttlIndex?: boolean;
+  // whether the collection needs a $jsonSchema validator checking the shape of lock documents.
+  // Defaults to false
+  validator?: boolean;
+  // only check the collection, rejecting if it is not set up correctly instead of changing anything
+  verify?: boolean;
+}
+
+// validator for lock documents, added to the collection with the `validator` option
+export const lockCollectionValidator = {
+  $jsonSchema: {
+    bsonType: "object",
+    required: ["lockID", "readers", "writer"],
+    properties: {
+      lockID: {
+        bsonType: "string",
+      },
+      readers: {
+        bsonType: "array",
+      },
+      writer: {
+        bsonType: "string",
+      },
+      expiresAt: {
+        bsonType: "date",
+      },
+    },
+  },
+};
+
+const NamespaceExistsErrorCode = 48;
+
+// A problem with the setup of a lock collection, and how to fix it if it can be fixed without
+// dropping anything
+interface SetupProblem {
+  description: string;
+  fix?: () => Promise<unknown>;
+}
+
+/*
+ * Checks a lock collection against what RWMutex needs: a unique index on lockID, and depending on
+ * the options a TTL index on expiresAt and a validator.
+ * @param {mongodb Db} db - the database the collection lives in
+ * @param {string} name - name of the lock collection
+ * @param {Object} options - which of the optional indexes and validator are needed
+ * @return {Promise} - Resolves to the problems found, in the order they need fixing
+ */
+async function findSetupProblems(
+  db: Db,
+  name: string,
+  options: LockCollectionOptions,
+): Promise<SetupProblem[]> {
+  const problems: SetupProblem[] = [];
+  const [collectionInfo] = await db.listCollections({ name }).toArray();
+  const coll = db.collection<MongoLock>(name);
+  let indexes = [];
+  if (!collectionInfo) {
+    problems.push({
+      description: `collection ${name} does not exist`,
+      fix: () => createCollection(db, name, options),
+    });
+  } else {
+    indexes = await coll.indexes();
+    const validator = collectionInfo["options"] && collectionInfo["options"].validator;
+    if (options.validator && !validator) {
+      problems.push({
+        description: `collection ${name} has no validator`,
+        fix: () => db.command({ collMod: name, validator: lockCollectionValidator }),
+      });
+    } else if (
+      options.validator &&
+      JSON.stringify(validator) !== JSON.stringify(lockCollectionValidator)
+    ) {
+      // leave validators someone else set up alone
+      problems.push({ description: `collection ${name} has a different validator` });
+    }
+  }
+
+  const lockIDIndex = indexes.find((index) => isSingleFieldIndex(index, "lockID"));
+  if (!lockIDIndex) {
+    problems.push({
+      description: `collection ${name} has no unique index on lockID`,
+      fix: () => coll.createIndex({ lockID: 1 }, { unique: true }),
+    });
+  } else if (!lockIDIndex.unique) {
+    problems.push({ description: `index ${lockIDIndex.name} on lockID is not unique` });
+  }
+
+  if (options.ttlIndex !== false) {
+    const ttlIndex = indexes.find((index) => isSingleFieldIndex(index, "expiresAt"));
+    if (!ttlIndex) {
+      problems.push({
+        description: `collection ${name} has no TTL index on expiresAt`,
+        fix: () => coll.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+      });
+    } else if (ttlIndex.expireAfterSeconds !== 0) {
+      problems.push({
+        description: `index ${ttlIndex.name} on expiresAt must be a TTL index with expireAfterSeconds: 0`,
+      });
+    }
+  }
+  return problems;
+}
+
+// Whether an index is an ascending index on just the given field
+function isSingleFieldIndex(index: any, field: string): boolean {
+  const keys = Object.keys(index.key || {});
+  return keys.length === 1 && keys[0] === field && index.key[field] === 1;
+}
+
+// Creates a lock collection, and adds the validator if it was created by someone else in the
+// meantime
+async function createCollection(db: Db, name: string, options: LockCollectionOptions) {
+  try {
+    await db.createCollection(
+      name,
+      options.validator ? { validator: lockCollectionValidator } : {},
+    );
+  } catch (err) {
+    if (!(err instanceof MongoError) || err.code !== NamespaceExistsErrorCode) {
+      throw err;
+    }
+    if (options.validator) {
+      await db.command({ collMod: name, validator: lockCollectionValidator });
+    }
+  }
+}
+
+/*
+ * Reports what is missing from or misconfigured in a lock collection, without changing anything.
+ * @param {mongodb Db} db - the database the collection lives in
+ * @param {string} name - name of the lock collection
+ * @param {Object} options - which of the optional indexes and validator are needed
+ * @return {Promise} - Resolves to a description of each problem found, empty if there are none
+ */
+export async function verifyLockCollection(
+  db: Db,
+  name: string,
+  options: LockCollectionOptions = {},
+): Promise<string[]> {
+  const problems = await findSetupProblems(db, name, options);
+  return problems.map((problem) => problem.description);
+}
+
+/*
+ * Sets up a collection for storing locks: creates it along with a unique index on lockID, and by
+ * default a TTL index on expiresAt. Anything that already exists is left as is, so this is safe to
+ * call every time the application starts. Indexes or validators that exist but are set up
+ * differently are not changed, since that would mean dropping them. Instead, this rejects.
+ * @param {mongodb Db} db - the database the collection lives in
+ * @param {string} name - name of the lock collection
+ * @param {Object} options - which of the optional indexes and validator are needed, and whether to
+ * only verify the setup
+ * @return {Promise} - Resolves to the collection once it is set up, rejects if it could not be set
+ * up or, in verify mode, if anything is missing or misconfigured
+ */
+export async function ensureLockCollection(
+  db: Db,
+  name: string,
+  options: LockCollectionOptions = {},
+): Promise<Collection<MongoLock>> {
+  try {
+    const problems = await findSetupProblems(db, name, options);
+    const unfixable = options.verify ? problems : problems.filter((problem) => !problem.fix);
+    if (unfixable.length > 0) {
+      throw new Error(unfixable.map((problem) => problem.description).join(", "));
+    }
+    for (const problem of problems) {
+      await problem.fix();
+    }
+  } catch (err) {
+    let errMsg = `error setting up lock collection ${name}`;
+    if (err instanceof Error) {
+      errMsg += `: ${err.message}`;
+    }
+    throw new Error(errMsg);
+  }
+  return db.collection<MongoLock>(name);
+}
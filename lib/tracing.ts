@@ -0,0 +1,84 @@
+import {
+  LockAbortedError,
+  LockAttemptsExceededError,
+  LockNotHeldError,
+  LockOverrideConflictError,
+  LockReentryError,
+  LockTimeoutError,
+} from "./errors";
+
+export type SpanAttributes = { [key: string]: string | number | boolean };
+
+// The status codes of a span, with the same values as OpenTelemetry's SpanStatusCode
+export const SpanStatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2,
+};
+
+/*
+ * LockSpan is the part of a tracing span RWMutex uses. An OpenTelemetry Span satisfies it.
+ */
+export interface LockSpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): unknown;
+  end(): void;
+}
+
+/*
+ * LockTracer is the part of a tracer RWMutex uses to start spans. An OpenTelemetry Tracer
+ * satisfies it, so spans become children of whatever span is active when a lock operation starts.
+ */
+export interface LockTracer {
+  startSpan(name: string, options?: { attributes?: SpanAttributes }): LockSpan;
+}
+
+/*
+ * Returns the outcome attribute of an operation that failed with an error.
+ * @param {Error} err - the error the operation failed with
+ */
+export function errorOutcome(err: unknown): string {
+  if (err instanceof LockTimeoutError) {
+    return "timeout";
+  }
+  if (err instanceof LockAbortedError) {
+    return "aborted";
+  }
+  if (err instanceof LockAttemptsExceededError) {
+    return "attempts_exceeded";
+  }
+  if (err instanceof LockNotHeldError) {
+    return "not_held";
+  }
+  if (err instanceof LockReentryError) {
+    return "reentry";
+  }
+  if (err instanceof LockOverrideConflictError) {
+    return "conflict";
+  }
+  return "error";
+}
+
+/*
+ * Ends a span with the outcome of its operation.
+ * @param {Object} span - the span, or null when tracing is off
+ * @param {string} outcome - how the operation ended, e.g. "acquired"
+ * @param {Error} err - the error the operation failed with, if it did
+ */
+export function endSpan(span: LockSpan | null, outcome: string, err?: unknown) {
+  if (!span) {
+    return;
+  }
+  span.setAttribute("lock.outcome", outcome);
+  if (err === undefined) {
+    span.setStatus({ code: SpanStatusCode.OK });
+  } else {
+    span.recordException(err instanceof Error ? err : String(err));
+    span.setStatus({
+      code: SpanStatusCode.ERROR,
+      message: err instanceof Error ? err.message : String(err),
+    });
+  }
+  span.end();
+}